@@ -0,0 +1,37 @@
+import test from "node:test";
+import * as a from "assert";
+import * as lib from "./lib.js";
+import {DateRange, Month, YMD} from "./datetime.js";
+import {SourceFile} from "./md.js";
+import {parseQuery, Query} from "./query.js";
+import {getCalendarRange, layoutCalendar} from "./calendar.js";
+
+const SRC = new SourceFile("URI", "SRC", "SRC.md");
+const TODAY = new YMD(2025, 5, 7);
+
+test("getCalendarRange", () => {
+  const range = (src: string) => getCalendarRange(parseQuery(src) as Query, TODAY).toString();
+  a.strictEqual(range("xxx"), "2025/05/05 ~ 2025/05/11");
+  a.strictEqual(range("xxx\nperiod: month"), new Month(2025, 5).toString());
+  a.strictEqual(range("xxx\nlimit-weeks: 1"), "2025/04/28 ~ 2025/05/18");
+  a.strictEqual(range("xxx\nbetween: 2025/05/01 2025/05/02\nperiod: month"), "2025/05/01 ~ 2025/05/02");
+});
+
+test("layoutCalendar puts day tasks in cells and periods in banners", () => {
+  const tasks = lib.parseContentToTasks(SRC, `- 2025/05/05 ~ 2025/05/11
+  - [ ] weekly
+- 2025/05/09 ~ 2025/05/13
+  - [ ] trip
+- 2025/05/07
+  - [ ] day
+- 2025/05/07 10:00-11:00
+  - [ ] meeting
+`)!;
+  tasks.sortByDateIfNeeded();
+  const rows = layoutCalendar(tasks, new DateRange(new YMD(2025, 5, 5), new YMD(2025, 5, 18)));
+  a.deepStrictEqual(rows.map(row => row.week.toString()), ["2025/05/05 ~ 2025/05/11", "2025/05/12 ~ 2025/05/18"]);
+  a.deepStrictEqual(rows[0].cells[2].temporals.map(node => node.temporal.toString()),
+    ["2025/05/07", "2025/05/07 10:00-11:00"]);
+  a.deepStrictEqual(rows[0].banners.map(banner => [banner.firstColumn, banner.lastColumn]), [[0, 6], [4, 6]]);
+  a.deepStrictEqual(rows[1].banners.map(banner => [banner.firstColumn, banner.lastColumn]), [[0, 1]]);
+});
@@ -0,0 +1,101 @@
+import {DateRange, genDates, Month, TimeSlot, Week, YMD} from "./datetime.js";
+import {RootNode, TemporalNode} from "./lib.js";
+import {Query} from "./query.js";
+
+/**
+ * カレンダーの1日のマス
+ */
+export interface CalendarCell {
+  date: YMD;
+  /**
+   * その日の見出しと時間帯の見出し。時間帯は開始時刻の順
+   */
+  temporals: TemporalNode[];
+}
+
+/**
+ * 週や期間のタスクを、行をまたいで表示する帯
+ */
+export interface CalendarBanner {
+  temporal: TemporalNode;
+  /**
+   * 帯が始まる列 (0始まり)
+   */
+  firstColumn: number;
+  /**
+   * 帯が終わる列 (0始まり、含む)
+   */
+  lastColumn: number;
+}
+
+/**
+ * カレンダーの1週間分の行
+ */
+export interface CalendarRow {
+  week: DateRange;
+  cells: CalendarCell[];
+  banners: CalendarBanner[];
+}
+
+/**
+ * カレンダーに表示する期間。
+ * between、limit-weeks、period の順に優先し、どれも無ければ今週。
+ */
+export function getCalendarRange(query: Query, today: YMD): DateRange {
+  if (query.between) {
+    return query.between;
+  }
+  const thisWeek = Week.fromYMD(today).range;
+  if (query.limitWeeks !== undefined) {
+    return new DateRange(
+      thisWeek.from.plusDays(-7 * query.limitWeeks),
+      thisWeek.to.plusDays(7 * query.limitWeeks));
+  }
+  if (query.period === "month") {
+    return new Month(today.year, today.month);
+  }
+  return thisWeek;
+}
+
+/**
+ * 期間に重なる週ごとに、日付と時間帯のタスクをマスに、それ以外を帯に置く。
+ *
+ * @param tasks ソート済みのもの
+ */
+export function layoutCalendar(tasks: RootNode, range: DateRange): CalendarRow[] {
+  const rows: CalendarRow[] = [];
+  let weekBegin = Week.fromYMD(range.from).range.from;
+  while (!weekBegin.laterThan(range.to)) {
+    const week = new DateRange(weekBegin, weekBegin.plusDays(6));
+    const cells: CalendarCell[] = [];
+    for (const date of genDates(week.from, week.to)) {
+      cells.push({date, temporals: []});
+    }
+    rows.push({week, cells, banners: []});
+    weekBegin = weekBegin.plusDays(7);
+  }
+
+  for (const node of tasks.children) {
+    const temporal = node.temporal;
+    if (temporal instanceof YMD || temporal instanceof TimeSlot) {
+      const date = temporal.getDate();
+      for (const row of rows) {
+        const cell = row.cells.find(cell => cell.date.equals(date));
+        if (cell) cell.temporals.push(node);
+      }
+      continue;
+    }
+    const nodeRange = temporal.toDateRange();
+    for (const row of rows) {
+      if (!row.week.overlaps(nodeRange)) continue;
+      const first = nodeRange.from.laterThan(row.week.from) ? nodeRange.from : row.week.from;
+      const last = nodeRange.to.earlierThan(row.week.to) ? nodeRange.to : row.week.to;
+      row.banners.push({
+        temporal: node,
+        firstColumn: row.cells.findIndex(cell => cell.date.equals(first)),
+        lastColumn: row.cells.findIndex(cell => cell.date.equals(last)),
+      });
+    }
+  }
+  return rows;
+}
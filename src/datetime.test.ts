@@ -2,7 +2,7 @@ import * as dt from "./datetime";
 import test from "node:test";
 import {deepStrictEqual} from "node:assert";
 import * as a from "assert";
-import {DateRange, Week, YMD} from "./datetime.js";
+import {DateRange, ISOWeek, Month, SpanInWeek, TimeSlot, Week, YMD} from "./datetime.js";
 
 test("Week#constructor", t => {
   a.doesNotThrow(() => {
@@ -71,3 +71,83 @@ test("Week#isWeekRange", () => {
     false
   );
 });
+
+test("ISOWeek#fromISOString", () => {
+  const week = ISOWeek.fromISOString("2025-W11");
+  deepStrictEqual(week?.from, new YMD(2025, 3, 10));
+  deepStrictEqual(week?.to, new YMD(2025, 3, 16));
+  deepStrictEqual(week?.toString(), "2025-W11");
+  // 2025/01/01 belongs to the first week of 2025
+  deepStrictEqual(ISOWeek.fromISOString("2025-W01")?.from, new YMD(2024, 12, 30));
+  deepStrictEqual(ISOWeek.fromISOString("2020-W53")?.to, new YMD(2021, 1, 3));
+  deepStrictEqual(ISOWeek.fromISOString("2025-W53"), undefined);
+  deepStrictEqual(ISOWeek.fromISOString("2025-W00"), undefined);
+  deepStrictEqual(ISOWeek.fromISOString("2025/03/10"), undefined);
+});
+
+test("ISOWeek equals DateRange", () => {
+  const week = ISOWeek.fromISOString("2025-W11")!;
+  const range = new DateRange(new YMD(2025, 3, 10), new YMD(2025, 3, 16));
+  deepStrictEqual(week.equals(range), true);
+  deepStrictEqual(range.equals(week), true);
+  deepStrictEqual(ISOWeek.fromRange(range)?.toString(), "2025-W11");
+  deepStrictEqual(ISOWeek.fromRange(new DateRange(new YMD(2025, 3, 9), new YMD(2025, 3, 15))), undefined);
+});
+
+test("Month#fromMonthString", () => {
+  const month = Month.fromMonthString("2025/02");
+  deepStrictEqual(month?.from, new YMD(2025, 2, 1));
+  deepStrictEqual(month?.to, new YMD(2025, 2, 28));
+  deepStrictEqual(month?.toString(), "2025/02");
+  deepStrictEqual(Month.fromMonthString("2025/12")?.to, new YMD(2025, 12, 31));
+  deepStrictEqual(Month.fromMonthString("2025/02/01"), undefined);
+});
+
+test("SpanInWeek#split", () => {
+  const parts = SpanInWeek.split(Month.fromMonthString("2025/03")!);
+  deepStrictEqual(parts.map(part => part.week.from), [
+    new YMD(2025, 2, 24),
+    new YMD(2025, 3, 3),
+    new YMD(2025, 3, 10),
+    new YMD(2025, 3, 17),
+    new YMD(2025, 3, 24),
+    new YMD(2025, 3, 31),
+  ]);
+  deepStrictEqual(parts[0].getDate(), new YMD(2025, 3, 1));
+  deepStrictEqual(parts[5].toDateRange(), new DateRange(new YMD(2025, 3, 31), new YMD(2025, 3, 31)));
+});
+
+test("Temporal#compareTemporal puts longer periods first", () => {
+  const day = new YMD(2025, 3, 3);
+  const week = new DateRange(new YMD(2025, 3, 3), new YMD(2025, 3, 9));
+  const sorted = [day, week, new YMD(2025, 3, 2)].sort((a, b) => a.compareTemporal(b));
+  deepStrictEqual(sorted, [new YMD(2025, 3, 2), week, day]);
+});
+
+test("TimeSlot#fromString", () => {
+  const slot = TimeSlot.fromString("2025/03/12 10:00-11:30");
+  deepStrictEqual(slot, new TimeSlot(new YMD(2025, 3, 12), 600, 690));
+  deepStrictEqual(slot?.toString(), "2025/03/12 10:00-11:30");
+  deepStrictEqual(TimeSlot.fromString("2025/03/12 9:05")?.toString(), "2025/03/12 09:05");
+  deepStrictEqual(TimeSlot.fromString("2025/03/12 11:00-10:00"), undefined);
+  deepStrictEqual(TimeSlot.fromString("2025/03/12 24:00"), undefined);
+  deepStrictEqual(TimeSlot.fromString("2025/03/12 10:60"), undefined);
+  deepStrictEqual(TimeSlot.fromString("2025/03/12"), undefined);
+});
+
+test("TimeSlot#overlaps and #includes", () => {
+  const slot = TimeSlot.fromString("2025/03/12 10:00-11:30")!;
+  deepStrictEqual(slot.overlaps(TimeSlot.fromString("2025/03/12 11:00-12:00")!), true);
+  deepStrictEqual(slot.overlaps(TimeSlot.fromString("2025/03/12 11:30-12:00")!), false);
+  deepStrictEqual(slot.overlaps(TimeSlot.fromString("2025/03/13 10:00-11:30")!), false);
+  deepStrictEqual(slot.overlaps(TimeSlot.fromString("2025/03/12 10:30")!), true);
+  deepStrictEqual(slot.includes(new Date(2025, 2, 12, 11, 29)), true);
+  deepStrictEqual(slot.includes(new Date(2025, 2, 12, 11, 30)), false);
+});
+
+test("TimeSlot sorts after its day by start time", () => {
+  const day = new YMD(2025, 3, 12);
+  const late = TimeSlot.fromString("2025/03/12 13:00")!;
+  const early = TimeSlot.fromString("2025/03/12 09:00-10:00")!;
+  deepStrictEqual([late, day, early].sort((a, b) => a.compareTemporal(b)), [day, early, late]);
+});
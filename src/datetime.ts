@@ -1,14 +1,21 @@
 import moment from "moment/moment.js";
-
-const WEEK_BEGIN_DAY = 1; // 1 for monday
-const WEEK_END_DAY = 0; // 0 for monday
+import {getSettings} from "./settings.js";
 
 export function toEpochDate(date: YMD): number {
   return Math.floor(date.toDate().getTime() / (24 * 60 * 60 * 1000));
 }
 
-export const DATE_RANGE_DELIMITER = " ~ ";
-export const DATE_FORMAT = "YYYY/MM/DD"
+export function getDateFormat(): string {
+  return getSettings().dateFormat;
+}
+
+export function getDateRangeDelimiter(): string {
+  return getSettings().dateRangeDelimiter;
+}
+
+export function getMonthFormat(): string {
+  return getSettings().monthFormat;
+}
 
 export abstract class Temporal {
   abstract getDate(): YMD;
@@ -17,8 +24,27 @@ export abstract class Temporal {
 
   abstract toString(): string;
 
+  /**
+   * @return このTemporalが表す期間
+   */
+  abstract toDateRange(): DateRange;
+
+  /**
+   * 始まる日で比べる。同じ日に始まるなら、長い期間を先にする。
+   */
   compareTemporal(another: Temporal): number {
-    return this.getDate().compare(another.getDate());
+    const byDate = this.getDate().compare(another.getDate());
+    if (byDate !== 0) return byDate;
+    const byLength = another.toDateRange().getLengthInDays() - this.toDateRange().getLengthInDays();
+    if (byLength !== 0) return byLength;
+    return this.getStartMinutes() - another.getStartMinutes();
+  }
+
+  /**
+   * @return 始まる時刻 (0時からの分)。時刻を持たなければ -1 で、同じ日の時刻を持つものより先になる
+   */
+  getStartMinutes(): number {
+    return -1;
   }
 }
 
@@ -37,8 +63,8 @@ export class DateRange extends Temporal {
 
   static fromString(s: string): DateRange | string {
     const dates: YMD[] = [];
-    for (const rawDate of s.split(DATE_RANGE_DELIMITER)) {
-      const m = moment(rawDate, DATE_FORMAT);
+    for (const rawDate of s.split(getDateRangeDelimiter())) {
+      const m = moment(rawDate, getDateFormat());
       if (!m.isValid()) {
         return "Invalid date format";
       }
@@ -63,10 +89,26 @@ export class DateRange extends Temporal {
     }
   }
 
+  getLengthInDays(): number {
+    return toEpochDate(this.to) - toEpochDate(this.from) + 1;
+  }
+
+  /**
+   * @return 一日でも重なっていればtrue
+   */
+  overlaps(another: DateRange): boolean {
+    return toEpochDate(this.from) <= toEpochDate(another.to) &&
+      toEpochDate(another.from) <= toEpochDate(this.to);
+  }
+
   getDate(): YMD {
     return this.from;
   }
 
+  toDateRange(): DateRange {
+    return this;
+  }
+
   equals(another: Temporal): boolean {
     if (!(another instanceof DateRange)) {
       return false;
@@ -75,7 +117,252 @@ export class DateRange extends Temporal {
   }
 
   toString() {
-    return this.from.toString() + DATE_RANGE_DELIMITER + this.to.toString();
+    return this.rangeString();
+  }
+
+  rangeString() {
+    return this.from.toString() + getDateRangeDelimiter() + this.to.toString();
+  }
+}
+
+const REGEX_ISO_WEEK = /^(\d{4})-W(\d{2})$/;
+const ISO_WEEK_BEGIN_DAY = 1; // monday
+
+/**
+ * ISO 8601 の週 (e.g. "2025-W11")。月曜日から日曜日までのDateRangeとして扱うので、
+ * 同じ週を表すDateRangeとはequalsがtrueになる。
+ */
+export class ISOWeek extends DateRange {
+  readonly weekYear: number;
+  readonly week: number;
+
+  constructor(weekYear: number, week: number) {
+    // 1月4日は必ずその年の第1週に含まれる
+    const m = moment(new Date(weekYear, 0, 4));
+    if (!Number.isInteger(week) || week < 1 || week > m.isoWeeksInYear()) {
+      throw new Error(`Invalid ISO week (year: ${weekYear}, week: ${week})`);
+    }
+    const monday = YMD.fromMoment(m.isoWeek(week).isoWeekday(ISO_WEEK_BEGIN_DAY));
+    super(monday, monday.plusDays(6));
+    this.weekYear = weekYear;
+    this.week = week;
+  }
+
+  static fromISOString(s: string): ISOWeek | undefined {
+    const match = s.match(REGEX_ISO_WEEK);
+    if (!match) return undefined;
+    try {
+      return new ISOWeek(Number.parseInt(match[1]), Number.parseInt(match[2]));
+    } catch (e) {
+      return undefined;
+    }
+  }
+
+  /**
+   * @return rangeがちょうど月曜日から日曜日までならそのISOWeek
+   */
+  static fromRange(range: DateRange): ISOWeek | undefined {
+    if (range instanceof ISOWeek) return range;
+    if (range.from.toDate().getDay() !== ISO_WEEK_BEGIN_DAY
+      || !range.to.equals(range.from.plusDays(6))) {
+      return undefined;
+    }
+    const m = moment(range.from.toDate());
+    return new ISOWeek(m.isoWeekYear(), m.isoWeek());
+  }
+
+  /**
+   * @return "W11" のような週番号
+   */
+  weekString() {
+    return `W${this.week < 10 ? "0" : ""}${this.week}`;
+  }
+
+  toString() {
+    return `${this.weekYear}-${this.weekString()}`;
+  }
+}
+
+/**
+ * ある月の初日から末日まで (e.g. "2025/03")
+ */
+export class Month extends DateRange {
+  readonly year: number;
+  readonly month: number; // 1 ~ 12
+
+  constructor(year: number, month: number) {
+    const first = new YMD(year, month, 1);
+    super(first, new YMD(year, month + 1, 1).plusDays(-1));
+    this.year = year;
+    this.month = month;
+  }
+
+  static fromMonthString(s: string): Month | undefined {
+    const m = moment(s, getMonthFormat(), true);
+    if (!m.isValid()) return undefined;
+    return new Month(m.year(), m.month() + 1);
+  }
+
+  toString() {
+    return moment(this.from.toDate()).format(getMonthFormat());
+  }
+}
+
+/**
+ * 週をまたぐ期間 (月や自由な範囲) のうち、ある週に重なる部分。
+ * 期間は重なるすべての週に表示される。
+ */
+export class SpanInWeek extends Temporal {
+  readonly span: DateRange;
+  readonly week: DateRange;
+
+  constructor(span: DateRange, week: DateRange) {
+    super();
+    if (!span.overlaps(week)) {
+      throw new Error(`The span does not overlap the week (span: ${span}, week: ${week})`);
+    }
+    this.span = span;
+    this.week = week;
+  }
+
+  /**
+   * @return 期間が重なるすべての週の部分
+   */
+  static split(span: DateRange): SpanInWeek[] {
+    const parts: SpanInWeek[] = [];
+    let week = Week.fromYMD(span.from).range;
+    while (!span.to.earlierThan(week.from)) {
+      parts.push(new SpanInWeek(span, week));
+      week = new DateRange(week.from.plusDays(7), week.to.plusDays(7));
+    }
+    return parts;
+  }
+
+  getDate(): YMD {
+    return this.span.from.laterThan(this.week.from) ? this.span.from : this.week.from;
+  }
+
+  toDateRange(): DateRange {
+    const to = this.span.to.earlierThan(this.week.to) ? this.span.to : this.week.to;
+    return new DateRange(this.getDate(), to);
+  }
+
+  equals(another: Temporal): boolean {
+    if (!(another instanceof SpanInWeek)) {
+      return false;
+    }
+    return this.span.equals(another.span) && this.week.equals(another.week);
+  }
+
+  toString() {
+    return `${this.span.toString()} (${this.week.rangeString()})`;
+  }
+}
+
+const REGEX_TIME_SLOT = /^(.+?)\s+(\d{1,2}):(\d{2})(?:\s*-\s*(\d{1,2}):(\d{2}))?$/;
+const MINUTES_OF_DAY = 24 * 60;
+
+function formatMinutes(minutes: number): string {
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  return `${h < 10 ? "0" : ""}${h}:${m < 10 ? "0" : ""}${m}`;
+}
+
+/**
+ * ある日の時刻または時間帯 (e.g. "2025/03/12 10:00-11:30", "2025/03/12 10:00")
+ */
+export class TimeSlot extends Temporal {
+  readonly date: YMD;
+  /**
+   * 0時からの分
+   */
+  readonly start: number;
+  /**
+   * 0時からの分。時刻だけならundefined
+   */
+  readonly end: number | undefined;
+
+  constructor(date: YMD, start: number, end: number | undefined) {
+    super();
+    if (start < 0 || start >= MINUTES_OF_DAY) {
+      throw new Error("Invalid start time: " + start);
+    }
+    if (end !== undefined && (end <= start || end > MINUTES_OF_DAY)) {
+      throw new Error(`Invalid time slot (start: ${start}, end: ${end})`);
+    }
+    this.date = date;
+    this.start = start;
+    this.end = end;
+  }
+
+  static fromString(s: string): TimeSlot | undefined {
+    const match = s.match(REGEX_TIME_SLOT);
+    if (!match) return undefined;
+    const date = YMD.fromString(match[1]);
+    if (!date) return undefined;
+    const toMinutes = (h: string, m: string) => {
+      const minutes = Number.parseInt(m);
+      return minutes < 60 ? Number.parseInt(h) * 60 + minutes : -1;
+    }
+    try {
+      return new TimeSlot(
+        date,
+        toMinutes(match[2], match[3]),
+        match[4] !== undefined ? toMinutes(match[4], match[5]) : undefined);
+    } catch (e) {
+      return undefined;
+    }
+  }
+
+  getEnd(): number {
+    return this.end ?? this.start;
+  }
+
+  /**
+   * 時刻だけのものは、同じ時刻のものとだけ重なる
+   */
+  overlaps(another: TimeSlot): boolean {
+    if (!this.date.equals(another.date)) return false;
+    if (this.start === another.start) return true;
+    return this.start < another.getEnd() && another.start < this.getEnd();
+  }
+
+  /**
+   * @return nowがこの時間帯に含まれるならtrue
+   */
+  includes(now: Date): boolean {
+    if (!this.date.equals(YMD.fromDate(now))) return false;
+    const minutes = now.getHours() * 60 + now.getMinutes();
+    return this.start <= minutes && minutes < this.getEnd();
+  }
+
+  getDate(): YMD {
+    return this.date;
+  }
+
+  getStartMinutes(): number {
+    return this.start;
+  }
+
+  toDateRange(): DateRange {
+    return this.date.toDateRange();
+  }
+
+  equals(another: Temporal): boolean {
+    if (!(another instanceof TimeSlot)) {
+      return false;
+    }
+    return this.date.equals(another.date) && this.start === another.start && this.end === another.end;
+  }
+
+  toString() {
+    return this.date.toString() + " " + this.timeString();
+  }
+
+  timeString() {
+    return this.end === undefined
+      ? formatMinutes(this.start)
+      : formatMinutes(this.start) + "-" + formatMinutes(this.end);
   }
 }
 
@@ -111,7 +398,7 @@ export class YMD extends Temporal {
   }
 
   static fromString(s: string): YMD | undefined {
-    const m = moment(s, DATE_FORMAT, true);
+    const m = moment(s, getDateFormat(), true);
     if (!m.isValid()) return undefined;
     return YMD.fromMoment(m);
   }
@@ -138,8 +425,12 @@ export class YMD extends Temporal {
     return this;
   }
 
+  toDateRange(): DateRange {
+    return new DateRange(this, this);
+  }
+
   toString() {
-    return moment(this.toDate()).format(DATE_FORMAT);
+    return moment(this.toDate()).format(getDateFormat());
   }
 
   /**
@@ -185,7 +476,7 @@ export class Week {
 
   static fromYMD(date: YMD) {
     let beginOfWeekDate = date.toDate();
-    while (beginOfWeekDate.getDay() !== WEEK_BEGIN_DAY) {
+    while (beginOfWeekDate.getDay() !== getSettings().weekBeginDay) {
       beginOfWeekDate.setDate(beginOfWeekDate.getDate() - 1);
     }
     const beginOfWeek = YMD.fromDate(beginOfWeekDate);
@@ -194,7 +485,7 @@ export class Week {
   }
 
   static isBeginOfWeek(date: YMD) {
-    return date.toDate().getDay() === WEEK_BEGIN_DAY;
+    return date.toDate().getDay() === getSettings().weekBeginDay;
   }
 
   static fromRange(range: DateRange): Week | undefined {
@@ -204,7 +495,7 @@ export class Week {
   }
 
   static isWeekRange(range: DateRange) {
-    if (range.from.toDate().getDay() !== WEEK_BEGIN_DAY) {
+    if (range.from.toDate().getDay() !== getSettings().weekBeginDay) {
       return false;
     }
     const endOfWeek = range.from.plusDays(6);
@@ -0,0 +1,147 @@
+import test from "node:test";
+import * as a from "assert";
+import * as lib from "./lib.js";
+import {SourceFile} from "./md.js";
+import {foldLine, generateICalendar, importEvents, parseICalendar} from "./ical.js";
+import {YMD} from "./datetime.js";
+
+const SRC = new SourceFile("URI", "SRC", "SRC.md");
+const NOW = new Date(Date.UTC(2025, 4, 7, 1, 2, 3));
+
+test("generateICalendar writes todos and events", () => {
+  const tasks = lib.parseContentToTasks(SRC, `- 2025/05/05 ~ 2025/05/11
+  - [ ] weekly
+- 2025/05/06
+  - [x] done, really
+    - [x] child
+  - memo
+- 2025/05/07 10:00-11:30
+  - [ ] meeting
+`)!;
+  const lines = generateICalendar(tasks, NOW).split("\r\n");
+  a.strictEqual(lines.filter(line => line === "BEGIN:VTODO").length, 3);
+  a.strictEqual(lines.filter(line => line === "BEGIN:VEVENT").length, 1);
+  a.ok(lines.includes("DTSTAMP:20250507T010203Z"));
+  // Week
+  a.ok(lines.includes("DTSTART;VALUE=DATE:20250505"));
+  a.ok(lines.includes("DUE;VALUE=DATE:20250512"));
+  // Day
+  a.ok(lines.includes("SUMMARY:done\\, really"));
+  a.ok(lines.includes("DESCRIPTION:SRC\\n- [x] child"));
+  a.ok(lines.includes("STATUS:COMPLETED"));
+  a.ok(lines.includes("DTEND;VALUE=DATE:20250507"));
+  // Time slot
+  a.ok(lines.includes("DTSTART:20250507T100000"));
+  a.ok(lines.includes("DUE:20250507T113000"));
+});
+
+test("generateICalendar follows the checkbox statuses", () => {
+  const lines = generateICalendar(lib.parseContentToTasks(SRC, `- 2025/05/06
+  - [-] cancelled
+  - [/] in progress
+`)!, NOW).split("\r\n");
+  a.deepStrictEqual(lines.filter(line => line.startsWith("STATUS:")), ["STATUS:CANCELLED", "STATUS:IN-PROCESS"]);
+});
+
+test("generateICalendar gives stable UIDs", () => {
+  const content = `- 2025/05/06
+  - [ ] same
+  - [ ] same
+`;
+  const getUIDs = (text: string) => generateICalendar(lib.parseContentToTasks(SRC, text)!, NOW)
+    .split("\r\n")
+    .filter(line => line.startsWith("UID:"));
+  const uids = getUIDs(content);
+  a.strictEqual(uids.length, 2);
+  a.notStrictEqual(uids[0], uids[1]);
+  // Moving the tasks to other lines does not change them.
+  a.deepStrictEqual(getUIDs("- 2025/05/05\n  - [ ] other\n" + content), [getUIDs("- 2025/05/05\n  - [ ] other\n")[0], ...uids]);
+});
+
+test("foldLine folds by octets", () => {
+  a.strictEqual(foldLine("a".repeat(75)), "a".repeat(75));
+  a.strictEqual(foldLine("a".repeat(80)), "a".repeat(75) + "\r\n " + "a".repeat(5));
+  // Multibyte characters are not split.
+  a.strictEqual(foldLine("あ".repeat(26)), "あ".repeat(25) + "\r\n " + "あ");
+});
+
+const ICS = [
+  "BEGIN:VCALENDAR",
+  "BEGIN:VEVENT",
+  "SUMMARY:Planning\\, Q2",
+  "DTSTART;TZID=Asia/Tokyo:20250506T100000",
+  "DTEND;TZID=Asia/Tokyo:20250506T113000",
+  "BEGIN:VALARM",
+  "SUMMARY:alarm",
+  "END:VALARM",
+  "END:VEVENT",
+  "BEGIN:VEVENT",
+  "SUMMARY:Trip to",
+  "  Osaka",
+  "DTSTART;VALUE=DATE:20250504",
+  "DTEND;VALUE=DATE:20250506",
+  "END:VEVENT",
+  "BEGIN:VEVENT",
+  "SUMMARY:Out of range",
+  "DTSTART:20250601T090000",
+  "END:VEVENT",
+  "END:VCALENDAR",
+].join("\r\n");
+
+test("parseICalendar reads events", () => {
+  const events = parseICalendar(ICS);
+  a.deepStrictEqual(events.map(event => event.summary), ["Planning, Q2", "Trip to Osaka", "Out of range"]);
+  a.strictEqual(events[0].start, 600);
+  a.strictEqual(events[0].end, 690);
+  a.strictEqual(events[1].start, undefined);
+  a.strictEqual(events[1].from.toString(), "2025/05/04");
+  a.strictEqual(events[1].to.toString(), "2025/05/05");
+});
+
+test("importEvents writes events under day headers", () => {
+  const lines = [
+    "- 2025/04/28 ~ 2025/05/04",
+    "- 2025/05/04",
+    "    - [ ] Trip to Osaka",
+    "- 2025/05/06",
+    "    - [ ] existing",
+  ];
+  const updated = importEvents(lines, parseICalendar(ICS), new YMD(2025, 5, 1), new YMD(2025, 5, 31));
+  a.deepStrictEqual(updated, [
+    "- 2025/04/28 ~ 2025/05/04",
+    "- 2025/05/04",
+    "    - [ ] Trip to Osaka",
+    "- 2025/05/05 ~ 2025/05/11",
+    "- 2025/05/05",
+    "    - [ ] Trip to Osaka",
+    "- 2025/05/06",
+    "    - [ ] existing",
+    "    - [ ] 10:00-11:30 Planning, Q2",
+  ]);
+  // Imported events are skipped.
+  a.deepStrictEqual(importEvents(updated, parseICalendar(ICS), new YMD(2025, 5, 1), new YMD(2025, 5, 31)), updated);
+});
+
+test("importEvents creates the week header for a date in the middle of the week", () => {
+  const ics = [
+    "BEGIN:VCALENDAR",
+    "BEGIN:VEVENT",
+    "SUMMARY:Review",
+    "DTSTART;VALUE=DATE:20250507",
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ].join("\r\n");
+  const lines = [
+    "- 2025/04/28 ~ 2025/05/04",
+    "- 2025/05/02",
+    "    - [ ] existing",
+  ];
+  a.deepStrictEqual(importEvents(lines, parseICalendar(ics), new YMD(2025, 5, 1), new YMD(2025, 5, 31)), [
+    "- 2025/04/28 ~ 2025/05/04",
+    "- 2025/05/02",
+    "    - [ ] existing",
+    "- 2025/05/05 ~ 2025/05/11",
+    "- 2025/05/07",
+    "    - [ ] Review",
+  ]);
+});
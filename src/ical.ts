@@ -0,0 +1,358 @@
+import {DateRange, genDates, TimeSlot, Week, YMD} from "./datetime.js";
+import * as lib from "./lib.js";
+import {Node, NodeVisitor, RootNode, Task, TaskNode} from "./lib.js";
+import {getCheckboxStatus, SourceFile} from "./md.js";
+
+const CRLF = "\r\n";
+const MAX_LINE_OCTETS = 75;
+const PRODID = "-//obsidian-weekly-tasks//EN";
+const UID_DOMAIN = "obsidian-weekly-tasks";
+const MINUTES_OF_DAY = 24 * 60;
+const REGEX_PROPERTY = /^([^:;]+)((?:;[^:;=]+=(?:"[^"]*"|[^:;"]*))*):(.*)$/;
+const REGEX_DATE_TIME = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z?))?$/;
+
+function pad(n: number, length: number = 2): string {
+  let s = n.toString();
+  while (s.length < length) s = "0" + s;
+  return s;
+}
+
+function formatDate(date: YMD): string {
+  return pad(date.year, 4) + pad(date.month) + pad(date.day);
+}
+
+function formatLocalDateTime(date: YMD, minutes: number): string {
+  // 24:00 is written as 00:00 of the next day.
+  const d = date.plusDays(Math.floor(minutes / MINUTES_OF_DAY));
+  const m = minutes % MINUTES_OF_DAY;
+  return formatDate(d) + "T" + pad(Math.floor(m / 60)) + pad(m % 60) + "00";
+}
+
+function formatUTCDateTime(date: Date): string {
+  return pad(date.getUTCFullYear(), 4) + pad(date.getUTCMonth() + 1) + pad(date.getUTCDate())
+    + "T" + pad(date.getUTCHours()) + pad(date.getUTCMinutes()) + pad(date.getUTCSeconds()) + "Z";
+}
+
+export function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+function getOctets(char: string): number {
+  const code = char.codePointAt(0)!;
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  if (code < 0x10000) return 3;
+  return 4;
+}
+
+/**
+ * RFC 5545 の通り、75オクテットを超える行を折り返す
+ */
+export function foldLine(line: string): string {
+  const folded: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of Array.from(line)) {
+    const charOctets = getOctets(char);
+    // Continuation lines begin with a space, which takes one octet.
+    const limit = folded.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + charOctets > limit) {
+      folded.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += charOctets;
+  }
+  folded.push(current);
+  return folded.join(CRLF + " ");
+}
+
+/**
+ * FNV-1a
+ */
+function hash(s: string, seed: number): string {
+  let h = seed >>> 0;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193) >>> 0;
+  }
+  return ("0000000" + h.toString(16)).slice(-8);
+}
+
+/**
+ * 同じファイルの同じ期間の同じタスクには、何度書き出しても同じUIDを付ける。
+ * 行番号は変わりやすいので使わない。
+ *
+ * @param duplicateIndex 同じファイルの同じ期間に同じ文面のタスクがあるとき、その何番目か
+ */
+export function generateUID(task: Task, duplicateIndex: number): string {
+  const key = [task.task.srcFile.path, task.temporal.toString(), task.task.text, duplicateIndex].join("\n");
+  return `${hash(key, 0x811c9dc5)}${hash(key, 0x050c5d1f)}@${UID_DOMAIN}`;
+}
+
+function collectTasks(tasks: RootNode): Task[] {
+  const collected: Task[] = [];
+  tasks.visit(undefined, new class implements NodeVisitor<undefined> {
+    enter(node: Node, ctx: undefined): () => undefined {
+      if (node instanceof TaskNode) {
+        collected.push(node.task);
+      }
+      return function () {
+        return undefined;
+      };
+    }
+
+    exit(node: Node, ctx: undefined, childrenCtx: undefined[]): void {
+    }
+  });
+  return collected;
+}
+
+/**
+ * @return DTSTART と、VEVENTならDTEND、VTODOならDUE
+ */
+function getPeriodProperties(task: Task, endProperty: string): string[] {
+  const temporal = task.temporal;
+  if (temporal instanceof TimeSlot) {
+    return [
+      "DTSTART:" + formatLocalDateTime(temporal.date, temporal.start),
+      `${endProperty}:` + formatLocalDateTime(temporal.date, temporal.end ?? temporal.start),
+    ];
+  }
+  const range: DateRange = temporal.toDateRange();
+  // The end of an all-day item is exclusive.
+  return [
+    "DTSTART;VALUE=DATE:" + formatDate(range.from),
+    `${endProperty};VALUE=DATE:` + formatDate(range.to.plusDays(1)),
+  ];
+}
+
+/**
+ * タスクをiCalendarにする。
+ * チェックボックスのあるタスクは完了状態を持つVTODOに、それ以外は予定としてVEVENTにする。
+ * 日付のタスクは終日、週や月のタスクは複数日、時間帯のタスクはその時間の項目になる。
+ *
+ * @param now DTSTAMPに使う
+ */
+export function generateICalendar(tasks: RootNode, now: Date): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:" + PRODID,
+    "CALSCALE:GREGORIAN",
+  ];
+  const seen: Map<string, number> = new Map();
+  for (const task of collectTasks(tasks)) {
+    const seenKey = [task.task.srcFile.path, task.temporal.toString(), task.task.text].join("\n");
+    const duplicateIndex = seen.get(seenKey) ?? 0;
+    seen.set(seenKey, duplicateIndex + 1);
+
+    const isTodo = task.task.checkText !== undefined;
+    const component = isTodo ? "VTODO" : "VEVENT";
+    lines.push("BEGIN:" + component);
+    lines.push("UID:" + generateUID(task, duplicateIndex));
+    lines.push("DTSTAMP:" + formatUTCDateTime(now));
+    lines.push(...getPeriodProperties(task, isTodo ? "DUE" : "DTEND"));
+    lines.push("SUMMARY:" + escapeText(task.task.text));
+    const description = task.task.children
+      .map(child => child.generateMarkdown(0))
+      .join("");
+    lines.push("DESCRIPTION:" + escapeText(`${task.task.srcFile.displayName}\n${description}`.trim()));
+    if (isTodo) {
+      const isDone = task.task.isAllChecked();
+      lines.push("STATUS:" + getTodoStatus(task.task.checkText!, isDone));
+      lines.push("PERCENT-COMPLETE:" + (isDone ? 100 : 0));
+    }
+    lines.push("END:" + component);
+  }
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join(CRLF) + CRLF;
+}
+
+/**
+ * VTODO の STATUS。チェックボックスの状態の表に従う
+ */
+function getTodoStatus(checkText: string, isDone: boolean): string {
+  switch (getCheckboxStatus(checkText).state) {
+    case "cancelled":
+      return "CANCELLED";
+    case "in-progress":
+      return isDone ? "COMPLETED" : "IN-PROCESS";
+    default:
+      return isDone ? "COMPLETED" : "NEEDS-ACTION";
+  }
+}
+
+/**
+ * .icsから読み込んだ予定
+ */
+export interface ICalEvent {
+  summary: string;
+  /**
+   * 予定のある最初の日
+   */
+  from: YMD;
+  /**
+   * 予定のある最後の日
+   */
+  to: YMD;
+  /**
+   * 開始時刻 (0時からの分)。終日の予定ならundefined
+   */
+  start?: number;
+  /**
+   * 最後の日の終了時刻 (0時からの分)
+   */
+  end?: number;
+}
+
+export function unescapeText(text: string): string {
+  return text.replace(/\\([\\;,nN])/g, (_, char: string) => {
+    return char === "n" || char === "N" ? "\n" : char;
+  });
+}
+
+function unfoldLines(content: string): string[] {
+  const lines: string[] = [];
+  for (const line of content.split(/\r?\n/)) {
+    if ((line.startsWith(" ") || line.startsWith("\t")) && lines.length !== 0) {
+      lines[lines.length - 1] += line.substring(1);
+    } else {
+      lines.push(line);
+    }
+  }
+  return lines;
+}
+
+/**
+ * UTCの時刻はローカルの時刻にする。TZIDは無視してローカルの時刻として扱う。
+ */
+function parseDateTime(value: string): { date: YMD, minutes?: number } | undefined {
+  const match = value.match(REGEX_DATE_TIME);
+  if (!match) return undefined;
+  const [year, month, day] = [match[1], match[2], match[3]].map(v => Number.parseInt(v));
+  if (match[4] === undefined) {
+    return {date: new YMD(year, month, day)};
+  }
+  const [hour, minute] = [match[4], match[5]].map(v => Number.parseInt(v));
+  const date = match[7] === "Z"
+    ? new Date(Date.UTC(year, month - 1, day, hour, minute))
+    : new Date(year, month - 1, day, hour, minute);
+  return {date: YMD.fromDate(date), minutes: date.getHours() * 60 + date.getMinutes()};
+}
+
+function toEvent(properties: Map<string, string>): ICalEvent | undefined {
+  const dtStart = properties.get("DTSTART");
+  const start = dtStart !== undefined ? parseDateTime(dtStart) : undefined;
+  if (!start) return undefined;
+  const dtEnd = properties.get("DTEND");
+  let end = dtEnd !== undefined ? parseDateTime(dtEnd) : undefined;
+  const summary = unescapeText(properties.get("SUMMARY") ?? "").split("\n")[0].trim();
+
+  if (start.minutes === undefined) {
+    // The end of an all-day event is exclusive.
+    const to = end && end.date.laterThan(start.date) ? end.date.plusDays(-1) : start.date;
+    return {summary, from: start.date, to};
+  }
+  if (end && end.minutes === 0 && end.date.laterThan(start.date)) {
+    end = {date: end.date.plusDays(-1), minutes: MINUTES_OF_DAY};
+  }
+  if (!end || end.minutes === undefined || end.date.earlierThan(start.date)) {
+    return {summary, from: start.date, to: start.date, start: start.minutes};
+  }
+  return {summary, from: start.date, to: end.date, start: start.minutes, end: end.minutes};
+}
+
+/**
+ * .icsのVEVENTを読む。日付の無いものは無視する。
+ */
+export function parseICalendar(content: string): ICalEvent[] {
+  const events: ICalEvent[] = [];
+  let properties: Map<string, string> | undefined = undefined;
+  for (const line of unfoldLines(content)) {
+    const match = line.match(REGEX_PROPERTY);
+    if (!match) continue;
+    const name = match[1].toUpperCase();
+    const value = match[3];
+    if (name === "BEGIN" && value.toUpperCase() === "VEVENT") {
+      properties = new Map();
+    } else if (name === "END" && value.toUpperCase() === "VEVENT") {
+      const event = properties ? toEvent(properties) : undefined;
+      if (event) events.push(event);
+      properties = undefined;
+    } else if (properties && !properties.has(name)) {
+      // Properties of nested components such as VALARM come after the event's own ones.
+      properties.set(name, value);
+    }
+  }
+  return events;
+}
+
+/**
+ * 日付の見出しの下に書くタスクの文面。時刻のある予定は最初の日にだけ書く。
+ */
+function getEventTexts(event: ICalEvent, from: YMD, to: YMD): { date: YMD, text: string }[] {
+  if (event.start === undefined) {
+    const texts: { date: YMD, text: string }[] = [];
+    for (const date of genDates(event.from, event.to)) {
+      if (date.earlierThan(from) || date.laterThan(to)) continue;
+      texts.push({date, text: event.summary});
+    }
+    return texts;
+  }
+  if (event.from.earlierThan(from) || event.from.laterThan(to)) return [];
+  const isSameDay = event.from.equals(event.to);
+  const end = isSameDay && event.end !== undefined && event.end > event.start ? event.end : undefined;
+  const slot = new TimeSlot(event.from, event.start, end);
+  return [{date: event.from, text: `${slot.timeString()} ${event.summary}`}];
+}
+
+/**
+ * 期間内の予定を、日付の見出しの下に未完了のタスクとして書き込む。
+ * 見出しが無ければ generateTaskListTemplate と同じ形で作る。
+ * 同じ日に同じ文面のタスクがあれば、取り込み済みとして書かない。
+ *
+ * @param lines ファイルの全ての行
+ * @return 書き換えた行
+ */
+export function importEvents(lines: string[], events: ICalEvent[], from: YMD, to: YMD): string[] {
+  const srcFile = new SourceFile("IMPORT", "IMPORT", "IMPORT");
+  const existing = lib.parseContentToTasks(srcFile, lines.join("\n")) ?? new RootNode();
+  const getExistingTexts = (date: YMD) => {
+    const node = existing.children.find(node => node.temporal.equals(date));
+    if (!node) return [];
+    return node.children
+      .map(sourceNode => sourceNode.children.map(taskNode => taskNode.task.task.text))
+      .reduce((a, b) => a.concat(b), []);
+  };
+
+  const textsByDate: { date: YMD, texts: string[] }[] = [];
+  for (const event of events) {
+    for (const {date, text} of getEventTexts(event, from, to)) {
+      let found = textsByDate.find(value => value.date.equals(date));
+      if (!found) {
+        found = {date, texts: []};
+        textsByDate.push(found);
+      }
+      if (!found.texts.includes(text) && !getExistingTexts(date).includes(text)) {
+        found.texts.push(text);
+      }
+    }
+  }
+
+  const indentUnit = lib.getIndentUnit(lines);
+  let updated = lines;
+  textsByDate.sort((a, b) => a.date.compare(b.date));
+  for (const {date, texts} of textsByDate) {
+    if (texts.length === 0) continue;
+    // Creates only the header of the week if it is missing.
+    updated = lib.insertUnderHeader(updated, Week.fromYMD(date).range, []);
+    updated = lib.insertUnderHeader(updated, date, texts.map(text => indentUnit + "- [ ] " + text));
+  }
+  return updated;
+}
@@ -1,4 +1,9 @@
 import * as lib from "./lib.js";
+import test from "node:test";
+import * as assert from "assert";
+import {SourceFile} from "./md.js";
+import {Week, YMD} from "./datetime.js";
+import {DEFAULT_SETTINGS, setSettings} from "./settings.js";
 //import test from "node:test";
 //import * as assert from "assert";
 //import {DateRange, YMD} from "./lib.js";
@@ -151,3 +156,239 @@ import * as lib from "./lib.js";
 //    assert.strictEqual(node.children[0].isAllChecked(), c.expect, c.md);
 //  }
 //});
+
+test("parseContentToTasks merges ISO weeks with date ranges", () => {
+  const a = lib.parseContentToTasks(new SourceFile("A", "A", "A.md"), `- 2025-W11
+  - foo
+`)!;
+  const b = lib.parseContentToTasks(new SourceFile("B", "B", "B.md"), `- 2025/03/10 ~ 2025/03/16
+  - bar
+`)!;
+  a.addAllTasks(b);
+  assert.strictEqual(a.children.length, 1);
+  assert.strictEqual(a.children[0].children.length, 2);
+});
+
+test("expandSpans places spanning tasks in every week", () => {
+  const tasks = lib.parseContentToTasks(new SourceFile("A", "A", "A.md"), `- 2025/03
+  - plan
+- 2025/03/05 ~ 2025/03/12
+  - sprint
+- 2025/03/10 ~ 2025/03/16
+  - weekly
+`)!;
+  const expanded = lib.expandSpans(tasks);
+  expanded.sortByDateIfNeeded();
+  assert.deepStrictEqual(expanded.children.map(node => node.temporal.toString()), [
+    "2025/03 (2025/02/24 ~ 2025/03/02)",
+    "2025/03 (2025/03/03 ~ 2025/03/09)",
+    "2025/03/05 ~ 2025/03/12 (2025/03/03 ~ 2025/03/09)",
+    "2025/03 (2025/03/10 ~ 2025/03/16)",
+    "2025/03/10 ~ 2025/03/16",
+    "2025/03/05 ~ 2025/03/12 (2025/03/10 ~ 2025/03/16)",
+    "2025/03 (2025/03/17 ~ 2025/03/23)",
+    "2025/03 (2025/03/24 ~ 2025/03/30)",
+    "2025/03 (2025/03/31 ~ 2025/04/06)",
+  ]);
+});
+
+test("findOverlappingSlots flags slots of different sources", () => {
+  const a = lib.parseContentToTasks(new SourceFile("A", "A", "A.md"), `- 2025/03/12 10:00-11:30
+  - meeting
+- 2025/03/12 13:00-14:00
+  - lunch
+- 2025/03/12 15:00-16:00
+  - review
+- 2025/03/12 15:30-16:30
+  - review 2
+`)!;
+  a.addAllTasks(lib.parseContentToTasks(new SourceFile("B", "B", "B.md"), `- 2025/03/12 11:00-12:00
+  - call
+- 2025/03/12 13:00-14:00
+  - lunch
+`)!);
+  a.sortByDateIfNeeded();
+  const overlapping = lib.findOverlappingSlots(a);
+  assert.deepStrictEqual(
+    a.children.filter(node => overlapping.has(node)).map(node => node.temporal.toString()),
+    ["2025/03/12 10:00-11:30", "2025/03/12 11:00-12:00", "2025/03/12 13:00-14:00"]
+  );
+});
+
+test("parseContentToTasks recovers from malformed indentation", () => {
+  const srcFile = new SourceFile("URI", "SRC", "SRC.md");
+  const lines = [
+    "- 2025/05/06",
+    "  - [ ] a",
+    "       - [ ] b",
+    "   - [ ] c",
+  ];
+  const tasks = lib.parseContentToTasks(srcFile, lines.join("\n"))!;
+  const taskNodes = tasks.children[0].children[0].children;
+  assert.deepStrictEqual(taskNodes.map(node => node.task.task.text), ["a"]);
+  assert.deepStrictEqual(taskNodes[0].task.task.children.map(node => node.text), ["b", "c"]);
+  assert.deepStrictEqual(tasks.malformedMDs.map(m => m.toString()), [
+    "SRC:3: warning: Malformed indentation",
+    "SRC:3: warning: Indent level increased: from 1 to 4",
+    "SRC:4: warning: Malformed indentation",
+  ]);
+  assert.deepStrictEqual(tasks.malformedMDs[0].fix!.apply(lines), [
+    "- 2025/05/06",
+    "  - [ ] a",
+    "    - [ ] b",
+    "    - [ ] c",
+  ]);
+  assert.strictEqual(tasks.malformedMDs[0].fix!.apply(["- 2025/05/07"]), undefined);
+});
+
+test("parseContentToTasks suggests the week for a near-miss range", () => {
+  const srcFile = new SourceFile("URI", "SRC", "SRC.md");
+  const lines = [
+    "- 2025/05/06 ~ 2025/05/12",
+    "  - [ ] a",
+    "- 2025/05/01 ~ 2025/05/20",
+    "  - [ ] b",
+  ];
+  const tasks = lib.parseContentToTasks(srcFile, lines.join("\n"))!;
+  assert.strictEqual(tasks.malformedMDs.length, 1);
+  assert.strictEqual(tasks.malformedMDs[0].severity, "warning");
+  assert.deepStrictEqual(tasks.malformedMDs[0].fix!.apply(lines), [
+    "- 2025/05/05 ~ 2025/05/11",
+    "  - [ ] a",
+    "- 2025/05/01 ~ 2025/05/20",
+    "  - [ ] b",
+  ]);
+});
+
+test("sortByDateIfNeeded orders tasks by priority and due date", () => {
+  const tasks = lib.parseContentToTasks(new SourceFile("URI", "SRC", "SRC.md"), `- 2025/05/06
+  - [ ] plain
+  - [ ] later 🔽
+  - [ ] due 📅 2025-05-09
+  - [ ] due earlier 📅 2025-05-01
+  - [ ] important ⏫
+`)!;
+  tasks.sortByDateIfNeeded();
+  const taskNodes = tasks.children[0].children[0].children;
+  assert.deepStrictEqual(taskNodes.map(node => node.task.task.metadata.displayText),
+    ["important", "due earlier", "due", "plain", "later"]);
+  assert.deepStrictEqual(taskNodes.map(node => lib.isDueBeforePeriod(node.task.task.metadata.due, node.task.temporal)),
+    [false, true, false, false, false]);
+});
+
+test("parseContentToTasks collects inline-dated tasks", () => {
+  const tasks = lib.parseContentToTasks(new SourceFile("URI", "SRC", "SRC.md"), `- 2025/05/06
+  - [ ] under header 📅 2025-05-09
+- [ ] call vendor 📅 2025-05-06
+- project
+  - [ ] write draft ⏳ 2025-05-07 📅 2025-05-09
+    - [ ] outline 📅 2025-05-08
+  - [ ] undated
+
+- [ ] begin 🛫 2025-05-08
+`)!;
+  tasks.sortByDateIfNeeded();
+  assert.deepStrictEqual(tasks.malformedMDs, []);
+  assert.deepStrictEqual(tasks.children.map(temporalNode => [
+    temporalNode.temporal.toString(),
+    temporalNode.children[0].children.map(node => node.task.task.metadata.displayText),
+  ]), [
+    ["2025/05/06", ["call vendor", "under header"]],
+    ["2025/05/07", ["write draft"]],
+    ["2025/05/08", ["begin"]],
+  ]);
+  assert.strictEqual(tasks.children[1].children[0].children[0].task.task.children.length, 1);
+});
+
+test("parseContentToTasks collects daily notes under their date", () => {
+  const tasks = lib.parseContentToTasks(new SourceFile("URI", "SRC", "daily/2025-05-06.md"), `- [ ] a
+  - [ ] sub
+- b 📅 2025-05-09
+- 2025/05/07
+  - [ ] c
+`, new YMD(2025, 5, 6))!;
+  tasks.sortByDateIfNeeded();
+  assert.deepStrictEqual(tasks.malformedMDs, []);
+  assert.deepStrictEqual(tasks.children.map(temporalNode => [
+    temporalNode.temporal.toString(),
+    temporalNode.children[0].children.map(node => node.task.task.text),
+  ]), [
+    ["2025/05/06", ["b 📅 2025-05-09", "a"]],
+    ["2025/05/07", ["c"]],
+  ]);
+});
+
+test("getDailyNoteDate", () => {
+  setSettings(Object.assign({}, DEFAULT_SETTINGS, {dailyNoteFolders: ["daily"], dailyNoteFormat: "YYYY-MM-DD"}));
+  try {
+    assert.strictEqual(lib.getDailyNoteDate("daily/2025-05-06.md")?.toString(), "2025/05/06");
+    assert.strictEqual(lib.getDailyNoteDate("daily/2025/2025-05-06.md")?.toString(), "2025/05/06");
+    assert.strictEqual(lib.getDailyNoteDate("daily/memo.md"), undefined);
+    assert.strictEqual(lib.getDailyNoteDate("notes/2025-05-06.md"), undefined);
+    setSettings(Object.assign({}, DEFAULT_SETTINGS, {dailyNoteFolders: ["daily/"], dailyNoteFormat: "YYYY-MM-DD"}));
+    assert.strictEqual(lib.getDailyNoteDate("daily/2025-05-06.md")?.toString(), "2025/05/06");
+  } finally {
+    setSettings(DEFAULT_SETTINGS);
+  }
+});
+
+test("getShortNames resolves collisions", () => {
+  const source = (path: string, label?: string) =>
+    new SourceFile(path, path.replace(/\.md$/, ""), path, label !== undefined ? {label} : {});
+  const names = lib.getShortNames([
+    source("project-alpha.md"),
+    source("project-alps.md"),
+    source("project-beta.md"),
+    source("x/notes.md"),
+    source("y/notes.md"),
+    source("label.md", "be"),
+  ]);
+  assert.deepStrictEqual(Array.from(names.entries()).sort(), [
+    ["label.md", "be"],
+    ["project-alpha.md", "alph"],
+    ["project-alps.md", "alps"],
+    ["project-beta.md", "bet"],
+    ["x/notes.md", "notes"],
+    ["y/notes.md", "notes2"],
+  ]);
+});
+
+test("getShortNames keeps labels unchanged", () => {
+  const source = (path: string, label?: string) =>
+    new SourceFile(path, path.replace(/\.md$/, ""), path, label !== undefined ? {label} : {});
+  const names = lib.getShortNames([
+    source("a.md", "work"),
+    source("b.md", "work"),
+    source("work.md"),
+    source("x/work.md"),
+  ]);
+  assert.deepStrictEqual(Array.from(names.entries()).sort(), [
+    ["a.md", "work"],
+    ["b.md", "work"],
+    ["work.md", "work2"],
+    ["x/work.md", "work3"],
+  ]);
+});
+
+test("findHeaderLineNumber", () => {
+  const lines = [
+    "# notes",
+    "",
+    "- 2025/04/28 ~ 2025/05/04",
+    "  - [ ] a",
+    "- 2025-W19",
+    "  - [ ] b",
+  ];
+  assert.strictEqual(lib.findHeaderLineNumber(lines, Week.fromYMD(new YMD(2025, 5, 7)).range), 4);
+  assert.strictEqual(lib.findHeaderLineNumber(lines, new YMD(2025, 4, 28)), undefined);
+});
+
+test("getMissingWeek", () => {
+  const week = "2025/05/05 ~ 2025/05/11";
+  const date = new YMD(2025, 5, 7);
+  assert.strictEqual(lib.getMissingWeek(date, undefined)?.toString(), week);
+  assert.strictEqual(lib.getMissingWeek(date, new YMD(2025, 5, 2))?.toString(), week);
+  // The week or a date in the week is shown before.
+  assert.strictEqual(lib.getMissingWeek(date, Week.fromYMD(date).range), undefined);
+  assert.strictEqual(lib.getMissingWeek(date, new YMD(2025, 5, 5)), undefined);
+});
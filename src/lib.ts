@@ -1,76 +1,360 @@
-import {DateRange, genDates, Temporal, Week, YMD} from "./datetime.js";
+import moment from "moment/moment.js";
+import {DateRange, genDates, ISOWeek, Month, SpanInWeek, Temporal, TimeSlot, Week, YMD} from "./datetime.js";
 import * as md from "./md.js";
 import {MDListNode, MDListRootNode, SourceFile} from "./md.js";
+import {getSettings} from "./settings.js";
+import {Occurrence, RecurrenceRule} from "./recurrence.js";
+
+/**
+ * error: その見出しのタスクは表示されない。warning: 表示されるが、意図と違うかもしれない
+ */
+export type Severity = "error" | "warning";
+
+/**
+ * 書き方のおかしい箇所をワンクリックで直す
+ */
+export interface QuickFix {
+  title: string;
+  /**
+   * @param lines ファイルの全ての行
+   * @return 直した行。ファイルがパースされたときから変わっていればundefined
+   */
+  apply: (lines: string[]) => string[] | undefined;
+}
 
 export class MalformedMD {
   reason: string;
   node: MDListNode;
+  severity: Severity;
+  fix: QuickFix | undefined;
 
-  constructor(reason: string, node: MDListNode) {
+  constructor(reason: string, node: MDListNode, severity: Severity = "error", fix?: QuickFix) {
     this.reason = reason;
     this.node = node;
+    this.severity = severity;
+    this.fix = fix;
+  }
+
+  /**
+   * @return 1始まりの行番号
+   */
+  getLineNumber(): number | undefined {
+    const line = this.node.line;
+    return line ? line.lineNumber + 1 : undefined;
   }
 
   toString() {
-    return `${this.node.srcFile}: Malformed because: ${this.reason}`;
+    const lineNumber = this.getLineNumber();
+    const position = lineNumber !== undefined ? `${this.node.srcFile.displayName}:${lineNumber}` : this.node.srcFile.displayName;
+    return `${position}: ${this.severity}: ${this.reason}`;
   }
 }
 
+/**
+ * 1行を書き換える修正。行がパースされたときのままでなければ何もしない
+ */
+function replaceLineFix(title: string, node: MDListNode, newText: string): QuickFix | undefined {
+  const line = node.line;
+  if (!line) return undefined;
+  return {
+    title,
+    apply: lines => {
+      if (lines[line.lineNumber] !== line.rawText) return undefined;
+      const updated = Array.from(lines);
+      updated[line.lineNumber] = line.rawText.substring(0, line.indentCharLen) + line.marker + " " + newText;
+      return updated;
+    },
+  };
+}
+
+/**
+ * パースした木の深さに合わせて、かたまりの全ての行を indentUnit でインデントし直す修正
+ */
+function reindentFix(tree: MDListNode, indentUnit: string): QuickFix {
+  const reindented: { lineNumber: number, rawText: string, newText: string }[] = [];
+  const collect = (node: MDListNode, depth: number) => {
+    if (node.line) {
+      reindented.push({
+        lineNumber: node.line.lineNumber,
+        rawText: node.line.rawText,
+        newText: indentUnit.repeat(depth) + node.line.marker + " " + node.line.content,
+      });
+    }
+    node.children.forEach(child => collect(child, depth + 1));
+  };
+  tree.children.forEach(child => collect(child, 0));
+  return {
+    title: "Re-indent the list",
+    apply: lines => {
+      if (!reindented.every(line => lines[line.lineNumber] === line.rawText)) return undefined;
+      const updated = Array.from(lines);
+      reindented.forEach(line => updated[line.lineNumber] = line.newText);
+      return updated;
+    },
+  };
+}
+
+/**
+ * 週とは1日ずつしか違わない期間なら、その週
+ */
+export function findNearWeek(range: DateRange): DateRange | undefined {
+  if (Week.isWeekRange(range)) return undefined;
+  // The week containing the middle of the range
+  const week = Week.fromYMD(range.from.plusDays(3)).range;
+  const isNear = (a: YMD, b: YMD) => a.equals(b) || a.equals(b.plusDays(1)) || a.equals(b.plusDays(-1));
+  return isNear(range.from, week.from) && isNear(range.to, week.to) ? week : undefined;
+}
+
 export function isTabIndent(lines: string[]) {
   return lines.find((line) => line.startsWith('\t')) !== undefined;
 }
 
+/**
+ * デイリーノートのフォルダにあり、ファイル名が日付になっているノートなら、その日付
+ */
+export function getDailyNoteDate(path: string): YMD | undefined {
+  const settings = getSettings();
+  const isInFolder = (folder: string) => path.startsWith(folder.replace(/\/+$/, "") + "/");
+  if (!settings.dailyNoteFolders.some(isInFolder)) return undefined;
+  const name = path.substring(path.lastIndexOf("/") + 1).replace(/\.md$/, "");
+  const m = moment(name, settings.dailyNoteFormat, true);
+  return m.isValid() ? YMD.fromMoment(m) : undefined;
+}
+
+/**
+ * デイリーノートの日付の前に補う週の見出し。前に表示したものがその週の中にあれば補わない
+ */
+export function getMissingWeek(date: YMD, prevTemporal: Temporal | undefined): DateRange | undefined {
+  const week = Week.fromYMD(date).range;
+  if (prevTemporal !== undefined && !prevTemporal.getDate().earlierThan(week.from)) return undefined;
+  return week;
+}
+
 /**
  * Returns undefined when there is no tasks in the content.
  *
  * @param srcFile
  * @param content
+ * @param date デイリーノートなら、その日付。見出しでない項目はすべてその日付のタスクになる
  */
-export function parseContentToTasks(srcFile: SourceFile, content: string): RootNode | undefined {
+export function parseContentToTasks(srcFile: SourceFile, content: string, date?: YMD): RootNode | undefined {
   const hunks = md.parseContentToListHunks(srcFile, content);
   const tasks = new RootNode();
   for (const hunk of hunks) {
-    const mdTree = md.parseListHunkToTree(srcFile, hunk.lines);
-    const hunkTasks = parseMDRootToTaskRoot(mdTree);
+    const problems: md.ParseProblem[] = [];
+    const mdTree = md.parseListHunkToTree(srcFile, hunk.lines, problems);
+    const hunkTasks = parseMDRootToTaskRoot(mdTree, date);
+    if (date === undefined) {
+      // In daily notes, inline-dated tasks are already collected under the date of the note.
+      tasks.addAllTasks(parseInlineDatedTasks(mdTree));
+    }
     // Ignore malformed contents if there are no valid tasks in the hunk.
     // Malformed contents I want are ones in the hunk with some tasks
     // because the malformed contents may be "tasks" in that case.
     if (hunkTasks.hasTasks()) {
       tasks.addAllTasks(hunkTasks);
+      if (problems.length !== 0) {
+        const indentUnit = isTabIndent(hunk.lines.map(line => line.rawText))
+          ? "\t"
+          : " ".repeat(md.getMinimumIndentStep(hunk.lines));
+        const fix = reindentFix(mdTree, indentUnit);
+        problems.forEach(problem => {
+          tasks.malformedMDs.push(new MalformedMD(problem.reason, problem.node, "warning", fix));
+        });
+      }
+      tasks.malformedMDs.push(...hunkTasks.malformedMDs);
     }
   }
   return tasks.hasTasks() ? tasks : undefined;
 }
 
-export function parseMDRootToTaskRoot(mdRoot: MDListRootNode): RootNode {
+/**
+ * 日付、週、月、期間の見出しをパースする
+ *
+ * @return パースできなければその理由
+ */
+export function parseHeader(text: string): Temporal | string {
+  const asYMD = YMD.fromString(text)
+  if (asYMD) { // Parse as TaskDay
+    return asYMD;
+  }
+  const asTimeSlot = TimeSlot.fromString(text);
+  if (asTimeSlot) { // Parse as a time slot in a day
+    return asTimeSlot;
+  }
+  const asISOWeek = ISOWeek.fromISOString(text);
+  if (asISOWeek) { // Parse as TaskWeek written in ISO format
+    return asISOWeek;
+  }
+  const asMonth = Month.fromMonthString(text);
+  if (asMonth) { // Parse as TaskMonth
+    return asMonth;
+  }
+  // Parse as TaskWeek or an arbitrary range
+  const range = DateRange.fromString(text);
+  if (typeof range === "string") {
+    return "Invalid range format";
+  }
+  return range;
+}
+
+/**
+ * 同じ日の時間帯のうち、別のソースの時間帯と重なっているもの。
+ * 同じ時間帯に複数のソースがあるものも含む。
+ */
+export function findOverlappingSlots(rootNode: RootNode): Set<TemporalNode> {
+  const overlapping: Set<TemporalNode> = new Set();
+  const slotNodes = rootNode.children.filter(node => node.temporal instanceof TimeSlot);
+  const hasAnotherSource = (a: TemporalNode, b: TemporalNode) => a.children.some(sa => {
+    return b.children.some(sb => !sa.source.equals(sb.source));
+  });
+  for (let i = 0; i < slotNodes.length; i++) {
+    const a = slotNodes[i];
+    if (hasAnotherSource(a, a)) {
+      overlapping.add(a);
+    }
+    for (let j = i + 1; j < slotNodes.length; j++) {
+      const b = slotNodes[j];
+      if ((a.temporal as TimeSlot).overlaps(b.temporal as TimeSlot) && hasAnotherSource(a, b)) {
+        overlapping.add(a);
+        overlapping.add(b);
+      }
+    }
+  }
+  return overlapping;
+}
+
+/**
+ * 週に収まらない期間 (月や自由な範囲) か
+ */
+export function isSpanning(temporal: Temporal): temporal is DateRange {
+  return temporal instanceof DateRange && !Week.isWeekRange(temporal);
+}
+
+/**
+ * 週に収まらない期間のタスクを、その期間が重なるすべての週に置いたRootNodeを作る。
+ * 表示のためのもので、タスクそのものは共有される。
+ */
+export function expandSpans(rootNode: RootNode): RootNode {
+  const expanded = new RootNode();
+  rootNode.visit(expanded, new class implements NodeVisitor<RootNode> {
+    enter(node: Node, ctx: RootNode): () => RootNode {
+      if (node instanceof TaskNode) {
+        const task = node.task;
+        if (isSpanning(task.temporal)) {
+          for (const part of SpanInWeek.split(task.temporal)) {
+            ctx.addTask(Object.assign({}, task, {temporal: part}));
+          }
+        } else {
+          ctx.addTask(task);
+        }
+      }
+      return function () {
+        return ctx;
+      };
+    }
+
+    exit(node: Node, ctx: RootNode, childrenCtx: RootNode[]): void {
+    }
+  });
+  expanded.malformedMDs = rootNode.malformedMDs;
+  return expanded;
+}
+
+/**
+ * @param date デイリーノートなら、その日付。見出しでない項目はその日付のタスクになる
+ */
+export function parseMDRootToTaskRoot(mdRoot: MDListRootNode, date?: YMD): RootNode {
   const rootNode = new RootNode();
   for (const rawDateOrRange of mdRoot.children) {
-    const asYMD = YMD.fromString(rawDateOrRange.text)
-    let temporal: Temporal;
-    if (asYMD) { // Parse as TaskDay
-      temporal = asYMD;
-    } else { // Parse as TaskWeek
-      const weekRange = DateRange.fromString(rawDateOrRange.text);
-      if (typeof weekRange === "string") {
-        rootNode.malformedMDs.push(new MalformedMD("Invalid range format", rawDateOrRange));
-        continue;
-      }
-      if (!Week.isWeekRange(weekRange)) {
-        rootNode.malformedMDs.push(new MalformedMD("Invalid week range", rawDateOrRange));
-        continue;
+    if (RecurrenceRule.isRule(rawDateOrRange)) {
+      addRecurringTasks(rootNode, rawDateOrRange);
+      continue;
+    }
+    const temporal = parseHeader(rawDateOrRange.text);
+    if (typeof temporal === "string" && date) {
+      rootNode.addTask({task: rawDateOrRange, temporal: date});
+      continue;
+    }
+    if (typeof temporal === "string") {
+      // Lists of inline-dated tasks are not meant to be headers.
+      if (!hasInlineDatedTask(rawDateOrRange)) {
+        rootNode.malformedMDs.push(new MalformedMD(temporal, rawDateOrRange));
       }
-      temporal = weekRange;
+      continue;
+    }
+    const nearWeek = isSpanning(temporal) ? findNearWeek(temporal) : undefined;
+    if (nearWeek) {
+      rootNode.malformedMDs.push(new MalformedMD(`The range is not a week; did you mean ${nearWeek}?`,
+        rawDateOrRange, "warning", replaceLineFix(`Change to ${nearWeek}`, rawDateOrRange, nearWeek.toString())));
     }
     for (const child of rawDateOrRange.children) {
       rootNode.addTask({
         task: child,
         temporal: temporal,
+        header: rawDateOrRange,
       });
     }
   }
   return rootNode;
 }
 
+/**
+ * Tasks プラグインの形式で書かれた日付。予定日 (⏳)、期日 (📅)、開始日 (🛫) の順に使う
+ */
+export function getInlineDate(node: MDListNode): YMD | undefined {
+  if (node.checkText === undefined) return undefined;
+  const metadata = node.metadata;
+  return metadata.scheduled ?? metadata.due ?? metadata.start;
+}
+
+function hasInlineDatedTask(node: MDListNode): boolean {
+  return getInlineDate(node) !== undefined || node.children.some(hasInlineDatedTask);
+}
+
+/**
+ * 見出しの下に無く、文面に日付が書かれたタスクを、その日付のタスクとして集める。
+ * 見出しの下のタスクは parseMDRootToTaskRoot で集められるので、ここでは扱わない。
+ */
+export function parseInlineDatedTasks(mdRoot: MDListRootNode): RootNode {
+  const rootNode = new RootNode();
+  const collect = (node: MDListNode) => {
+    const date = getInlineDate(node);
+    if (date) {
+      // Its children are shown as the subtasks.
+      rootNode.addTask({task: node, temporal: date});
+      return;
+    }
+    node.children.forEach(collect);
+  };
+  for (const child of mdRoot.children) {
+    if (RecurrenceRule.isRule(child) || typeof parseHeader(child.text) !== "string") continue;
+    collect(child);
+  }
+  return rootNode;
+}
+
+/**
+ * 繰り返しタスクの見出しを、各日のタスクに展開して追加する
+ */
+function addRecurringTasks(rootNode: RootNode, header: MDListNode) {
+  const rule = RecurrenceRule.fromNode(header);
+  if (typeof rule === "string") {
+    rootNode.malformedMDs.push(new MalformedMD(rule, header));
+    return;
+  }
+  for (const date of rule.occurrences()) {
+    for (const template of rule.getTemplates()) {
+      rootNode.addTask({
+        task: rule.expand(template, date),
+        temporal: date,
+        header: rule.header,
+        occurrence: {rule, date},
+      });
+    }
+  }
+}
+
 export function generateTaskListTemplate(from: YMD, to: YMD) {
   let output: string = "";
   for (const currentYMD of genDates(from, to)) {
@@ -83,9 +367,161 @@ export function generateTaskListTemplate(from: YMD, to: YMD) {
   return output;
 }
 
+function parseTrees(lines: string[]): MDListNode[] {
+  // Only the structure is needed here.
+  const srcFile = new SourceFile("EDIT", "EDIT", "EDIT");
+  return md.parseContentToListHunks(srcFile, lines.join("\n"))
+    .filter(hunk => hunk.lines.length !== 0)
+    .map(hunk => md.parseListHunkToTree(srcFile, hunk.lines));
+}
+
+/**
+ * ファイルのリストのインデント1段分
+ */
+export function getIndentUnit(lines: string[]): string {
+  const srcFile = new SourceFile("EDIT", "EDIT", "EDIT");
+  const listLines = md.parseContentToListHunks(srcFile, lines.join("\n"))
+    .map(hunk => hunk.lines)
+    .reduce((a, b) => a.concat(b), []);
+  return isTabIndent(listLines.map(line => line.rawText))
+    ? "\t"
+    : " ".repeat(md.getMinimumIndentStep(listLines));
+}
+
+function findHeaders(lines: string[]): { node: MDListNode, temporal: Temporal }[] {
+  const headers: { node: MDListNode, temporal: Temporal }[] = [];
+  for (const tree of parseTrees(lines)) {
+    for (const node of tree.children) {
+      const temporal = parseHeader(node.text);
+      if (typeof temporal !== "string") {
+        headers.push({node, temporal});
+      }
+    }
+  }
+  return headers;
+}
+
+/**
+ * @return 見出しの行番号。無ければundefined
+ */
+export function findHeaderLineNumber(lines: string[], target: Temporal): number | undefined {
+  return findHeaders(lines).find(header => header.temporal.equals(target))?.node.line?.lineNumber;
+}
+
+/**
+ * 見出しの下に行を挿入する。見出しが無ければ、それより前の見出しのうち最も遅いものの後に作る。
+ *
+ * @param taskLines 見出しの直下に置く行。見出しのインデントは含まない
+ */
+export function insertUnderHeader(lines: string[], target: Temporal, taskLines: string[]): string[] {
+  const headers = findHeaders(lines);
+
+  const generate = (headerIndent: string) => taskLines.map(line => headerIndent + line);
+  const getIndent = (node: MDListNode) => node.line!.rawText.substring(0, node.line!.indentCharLen);
+
+  const updated = Array.from(lines);
+  const found = headers.find(header => header.temporal.equals(target));
+  if (found) {
+    updated.splice(found.node.getLastLineNumber()! + 1, 0, ...generate(getIndent(found.node)));
+    return updated;
+  }
+
+  let before: { node: MDListNode, temporal: Temporal } | undefined = undefined;
+  for (const header of headers) {
+    if (header.temporal.compareTemporal(target) > 0) continue;
+    if (before === undefined || before.temporal.compareTemporal(header.temporal) <= 0) {
+      before = header;
+    }
+  }
+  const headerIndent = before ? getIndent(before.node) : "";
+  const inserted = [headerIndent + "- " + target.toString(), ...generate(headerIndent)];
+  const position = before
+    ? before.node.getLastLineNumber()! + 1
+    : headers.length !== 0 ? headers[0].node.line!.lineNumber : updated.length;
+  updated.splice(position, 0, ...inserted);
+  return updated;
+}
+
+/**
+ * 日付の行に表示するための、ソースの短い名前。
+ * 表示名の最後の要素 ('-' や '/' で区切られたもの) の先頭から取る。
+ */
+export function getShortName(source: SourceFile): string {
+  return getLastNameElement(source).substring(0, getSettings().shortNameLength);
+}
+
+function getLastNameElement(source: SourceFile): string {
+  const dispNameElements = source.displayName.split(/([-\/])/);
+  return dispNameElements[dispNameElements.length - 1];
+}
+
+/**
+ * 一緒に表示するソースの、重ならない短い名前。
+ * wt-label があればそれを使い、短縮名が重なるものは重ならなくなるまで長くする。
+ * それでも重なるものには、パスの順に番号を付ける。wt-label は変えない
+ *
+ * @return Key: file path
+ */
+export function getShortNames(sources: SourceFile[]): Map<string, string> {
+  const unique: SourceFile[] = [];
+  sources.forEach(source => {
+    if (!unique.some(value => value.path === source.path)) unique.push(source);
+  });
+  unique.sort((a, b) => a.path.localeCompare(b.path));
+
+  const names: Map<string, string> = new Map();
+  unique.forEach(source => {
+    if (source.meta.label !== undefined) names.set(source.path, source.meta.label);
+  });
+  const isColliding = (source: SourceFile) => {
+    const name = names.get(source.path);
+    return unique.some(another => another.path !== source.path && names.get(another.path) === name);
+  };
+  let pending = unique.filter(source => source.meta.label === undefined);
+  let length = getSettings().shortNameLength;
+  while (pending.length !== 0) {
+    pending.forEach(source => names.set(source.path, getLastNameElement(source).substring(0, length)));
+    pending = pending.filter(isColliding);
+    if (pending.every(source => getLastNameElement(source).length <= length)) break;
+    length++;
+  }
+
+  // Labels are kept as they are, and only generated names are numbered.
+  const taken = new Set(unique.filter(source => source.meta.label !== undefined).map(source => source.meta.label!));
+  unique.filter(source => source.meta.label === undefined).forEach(source => {
+    const name = names.get(source.path)!;
+    let numbered = name;
+    for (let count = 2; taken.has(numbered); count++) {
+      numbered = name + count;
+    }
+    taken.add(numbered);
+    names.set(source.path, numbered);
+  });
+  return names;
+}
+
+/**
+ * RootNode に含まれるソース。重複は除く
+ */
+export function collectSources(rootNode: RootNode): SourceFile[] {
+  const sources: SourceFile[] = [];
+  rootNode.children.forEach(temporalNode => temporalNode.children.forEach(sourceNode => {
+    if (!sources.some(source => source.path === sourceNode.source.path)) sources.push(sourceNode.source);
+  }));
+  return sources;
+}
+
 export interface Task {
   temporal: Temporal;
   task: MDListNode;
+  /**
+   * タスクが書かれている見出し (日付や繰り返しのルール)
+   */
+  header?: MDListNode;
+  /**
+   * 繰り返しタスクから展開されたものなら、その元
+   */
+  occurrence?: Occurrence;
 }
 
 export interface NodeVisitor<Ctx> {
@@ -176,12 +612,45 @@ export class RootNode extends Node {
     });
   }
 
+  /**
+   * ソースファイルを差し替えたコピーを作る。
+   * 同じファイルを別の表示名で表示するときに使う。
+   */
+  withSourceFile(srcFile: SourceFile): RootNode {
+    const copied = new RootNode();
+    this.visit(copied, new class implements NodeVisitor<RootNode> {
+      enter(node: Node, ctx: RootNode): () => RootNode {
+        if (node instanceof TaskNode) {
+          ctx.addTask({
+            temporal: node.task.temporal,
+            task: node.task.task.cloneWithSourceFile(srcFile),
+            // Only the line of the header is used, so it is not cloned.
+            header: node.task.header,
+            occurrence: node.task.occurrence,
+          });
+        }
+        return function () {
+          return ctx;
+        };
+      }
+
+      exit(node: Node, ctx: RootNode, childrenCtx: RootNode[]): void {
+      }
+    });
+    copied.malformedMDs = this.malformedMDs.map(malformedMD => {
+      return new MalformedMD(malformedMD.reason, malformedMD.node.cloneWithSourceFile(srcFile),
+        malformedMD.severity, malformedMD.fix);
+    });
+    return copied;
+  }
+
   sortByDateIfNeeded() {
     if (this.isSorted) return;
     this.isSorted = true;
     // sort with descending order
     // TODO: I don't know why a.compare(b) makes the order descending. (Shouldn't it be b.compare(a)?)
     this.children.sort((a, b) => a.compare(b));
+    this.children.forEach(temporalNode => temporalNode.children.forEach(sourceNode => sourceNode.sortByPriority()));
   }
 }
 
@@ -228,6 +697,33 @@ export class SourceNode extends Node {
     }
     this.children.push(new TaskNode(this, task));
   }
+
+  /**
+   * 優先度の高い順、期日の早い順に並べる。どちらも同じならファイルでの順のまま
+   */
+  sortByPriority() {
+    const metadata = new Map(this.children.map(node => [node, node.task.task.metadata]));
+    this.children.sort((a, b) => {
+      const ma = metadata.get(a)!;
+      const mb = metadata.get(b)!;
+      const byPriority = md.PRIORITIES.indexOf(ma.priority) - md.PRIORITIES.indexOf(mb.priority);
+      if (byPriority !== 0) return byPriority;
+      if (ma.due && mb.due) return ma.due.compare(mb.due);
+      if (ma.due) return -1;
+      if (mb.due) return 1;
+      return 0;
+    });
+  }
+}
+
+/**
+ * 期日が見出しの期間より前なら、その期間の前に終わっているべきだったタスク。
+ * 週ごとに分けた期間は、元の期間の始まりと比べる。
+ */
+export function isDueBeforePeriod(due: YMD | undefined, temporal: Temporal): boolean {
+  if (due === undefined) return false;
+  const period = temporal instanceof SpanInWeek ? temporal.span : temporal.toDateRange();
+  return due.earlierThan(period.from);
 }
 
 export class TaskNode extends Node {
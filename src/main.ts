@@ -1,32 +1,128 @@
-import {App, Modal, Notice, Plugin, Setting, TFile, TFolder} from 'obsidian';
+import {
+  App,
+  Component,
+  debounce,
+  Editor,
+  HoverParent,
+  ItemView,
+  Keymap,
+  MarkdownView,
+  MarkdownRenderChild,
+  MarkdownRenderer,
+  Modal,
+  Notice,
+  Plugin,
+  PluginSettingTab,
+  Setting,
+  TAbstractFile,
+  TFile,
+  TFolder,
+  WorkspaceLeaf
+} from 'obsidian';
 
 import * as lib from "./lib.js"
 import {RootNode, Node, Task} from "./lib.js"
-import {DATE_FORMAT, DateRange, Temporal, YMD} from "./datetime";
-import * as datetime from "./datetime.js"
-import {MDListNode, MDNodeVisitor, SourceFile} from "./md";
+import {DateRange, getDateFormat, ISOWeek, SpanInWeek, Temporal, TimeSlot, Week, YMD} from "./datetime";
+import {
+  CheckBoxToggleHandler,
+  LineRange,
+  MDListNode,
+  MDNodeVisitor,
+  parseSourceMeta,
+  SourceFile,
+  SourceMeta,
+  SourceOpenHandler,
+  TextRenderer
+} from "./md";
+import * as md from "./md.js";
+import * as settings from "./settings.js";
+import {WTCSettings} from "./settings.js";
+import {TaskIndex} from "./taskindex.js";
+import {filterTasks, parseQuery, Query} from "./query.js";
+import * as recurrence from "./recurrence.js";
+import * as rollover from "./rollover.js";
+import {RolloverMove} from "./rollover.js";
+import * as ical from "./ical.js";
+import * as calendar from "./calendar.js";
+import {DAY_NAMES} from "./recurrence.js";
+import * as stats from "./stats.js";
 
 const CLASS_UNDONE = "obsidian-weekly-tasks-undone"
-
-interface WTCSettings {
-  mySetting: string;
-}
-
-const DEFAULT_SETTINGS: WTCSettings = {
-  mySetting: 'default'
-}
+// Identifies <details> across re-renders to keep them open or closed
+const ATTR_DETAILS_KEY = "data-wtc-key"
+const RERENDER_DELAY_MILLIS = 300
+const VIEW_TYPE_WEEKLY_TASKS = "weekly-tasks-view"
+const SVG_NS = "http://www.w3.org/2000/svg"
+const CARRIED_OVER_SOURCES = 5
 
 function getEpochTimeMillis(): number {
   return new Date().getTime();
 }
 
+/**
+ * @param task チェックボックスを含むタスク
+ * @param node クリックされたノード
+ * @param checked 新しくチェックされた状態にするならtrue
+ */
+type TaskToggleHandler = (task: Task, node: MDListNode, checked: boolean) => void;
+
 class TaskHTMLGenerator implements MDNodeVisitor<HTMLElement> {
+  private readonly onToggle: CheckBoxToggleHandler | undefined;
+  private readonly renderText: TextRenderer | undefined;
+  private readonly onOpen: SourceOpenHandler | undefined;
+  // The period the task is under, to find tasks due before it
+  private readonly temporal: Temporal | undefined;
+
+  constructor(onToggle?: CheckBoxToggleHandler, renderText?: TextRenderer, onOpen?: SourceOpenHandler,
+              temporal?: Temporal) {
+    this.onToggle = onToggle;
+    this.renderText = renderText;
+    this.onOpen = onOpen;
+    this.temporal = temporal;
+  }
+
   enter(node: MDListNode, ctx: HTMLElement): () => HTMLElement {
     //ctx.textContent = node.rawText;
-    ctx.append(node.toHTMLElement());
+    ctx.append(node.toHTMLElement(this.onToggle, this.renderText, this.onOpen));
+    this.appendBadges(node, ctx);
     return () => document.createElement("li");
   }
 
+  /**
+   * 優先度と期日のバッジ。期日が見出しの期間より前なら強調する
+   */
+  private appendBadges(node: MDListNode, el: HTMLElement) {
+    const metadata = node.metadata;
+    const createBadge = (text: string) => {
+      const badge = el.createSpan({text});
+      badge.style.marginLeft = "4px";
+      badge.style.padding = "0 4px";
+      badge.style.borderRadius = "4px";
+      badge.style.fontSize = "var(--font-smaller)";
+      badge.style.backgroundColor = "var(--background-modifier-hover)";
+      return badge;
+    };
+    if (metadata.priority !== "none") {
+      const badge = createBadge(metadata.priority);
+      if (metadata.priority === "highest" || metadata.priority === "high") {
+        badge.style.color = "var(--text-accent)";
+      }
+    }
+    if (metadata.due) {
+      const badge = createBadge("due " + metadata.due.toString());
+      if (this.temporal && lib.isDueBeforePeriod(metadata.due, this.temporal)) {
+        badge.style.color = "var(--text-on-accent)";
+        badge.style.backgroundColor = "var(--text-error)";
+      }
+    }
+    if (metadata.scheduled) {
+      createBadge("scheduled " + metadata.scheduled.toString());
+    }
+    if (metadata.start) {
+      createBadge("start " + metadata.start.toString());
+    }
+  }
+
   exit(node: MDListNode, parentCtx: HTMLElement, childrenCtx: HTMLElement[]): void {
     let ul: HTMLElement | undefined = undefined;
     childrenCtx.forEach(childCtx => {
@@ -57,7 +153,289 @@ function createTextSpan(bool: boolean, text: string, emphasisText: string): HTML
   return el;
 }
 
-function tFileToSrcFile(rootPaths: string[], f: TFile): SourceFile {
+/**
+ * 週番号が分かる範囲なら、それも併せて表示する
+ */
+function getDateRangeLabel(range: DateRange): string {
+  if (range instanceof ISOWeek) {
+    return `${range.toString()} (${range.rangeString()})`;
+  }
+  const isoWeek = ISOWeek.fromRange(range);
+  return isoWeek
+    ? `${range.toString()} (${isoWeek.weekString()})`
+    : range.toString();
+}
+
+/**
+ * 検索プラグインのうち、タグのクリックで使うもの
+ */
+interface GlobalSearch {
+  openGlobalSearch(query: string): void;
+}
+
+function hasMethod<K extends string>(value: unknown, key: K): value is Record<K, (...args: unknown[]) => unknown> {
+  return typeof value === "object" && value !== null && typeof Reflect.get(value, key) === "function";
+}
+
+/**
+ * 検索プラグイン。公開された API ではないので、無効なときや形が変わったときは undefined
+ */
+function getGlobalSearch(app: App): GlobalSearch | undefined {
+  const internalPlugins: unknown = Reflect.get(app, "internalPlugins");
+  if (!hasMethod(internalPlugins, "getPluginById")) return undefined;
+  const plugin = internalPlugins.getPluginById("global-search");
+  const instance: unknown = typeof plugin === "object" && plugin !== null ? Reflect.get(plugin, "instance") : undefined;
+  return hasMethod(instance, "openGlobalSearch") ? instance : undefined;
+}
+
+/**
+ * タスクの文面を、ソースファイルからの相対でMarkdownとして描画する。
+ * リンクとタグはコードブロックの外 (サイドバーなど) でもクリックできるようにする。
+ *
+ * @param component 描画したものの寿命を管理する
+ */
+function createMarkdownTextRenderer(app: App, component: Component): TextRenderer {
+  const hoverParent: HoverParent = {hoverPopover: null};
+  return (text, el, srcFile) => {
+    MarkdownRenderer.render(app, text, el, srcFile.path, component).then(() => {
+      // A task is a line, so the paragraph is not needed.
+      const p = el.firstElementChild;
+      if (el.childElementCount === 1 && p instanceof HTMLParagraphElement) {
+        p.replaceWith(...Array.from(p.childNodes));
+      }
+    }).catch(e => {
+      console.error("WTC: failed to render a task", e);
+      el.textContent = text;
+    });
+    el.addEventListener("click", ev => {
+      const target = ev.target;
+      if (!(target instanceof HTMLAnchorElement)) return;
+      if (target.hasClass("tag")) {
+        const globalSearch = getGlobalSearch(app);
+        if (!globalSearch) return;
+        ev.preventDefault();
+        ev.stopPropagation();
+        globalSearch.openGlobalSearch("tag:" + (target.getAttribute("href") ?? target.textContent ?? ""));
+        return;
+      }
+      if (!target.hasClass("internal-link")) return;
+      ev.preventDefault();
+      ev.stopPropagation();
+      const linktext = target.getAttribute("data-href") ?? target.getAttribute("href") ?? "";
+      app.workspace.openLinkText(linktext, srcFile.path, Keymap.isModEvent(ev));
+    });
+    el.addEventListener("mouseover", ev => {
+      const target = ev.target;
+      if (!(target instanceof HTMLAnchorElement) || !target.hasClass("internal-link")) return;
+      app.workspace.trigger("hover-link", {
+        event: ev,
+        source: "preview",
+        hoverParent,
+        targetEl: target,
+        linktext: target.getAttribute("data-href") ?? target.getAttribute("href") ?? "",
+        sourcePath: srcFile.path,
+      });
+    });
+  };
+}
+
+/**
+ * ソースのタスクが書かれている見出しの行。見出しの下のタスクも含む
+ */
+function getHeaderLineRange(sourceNode: lib.SourceNode): LineRange | undefined {
+  return sourceNode.children[0]?.task.header?.getLineRange();
+}
+
+/**
+ * ソースの短い名前のリンク。wt-color があればその色にする
+ *
+ * @param shortNames lib.getShortNames で作ったもの
+ */
+function createSourceAnchor(source: SourceFile, shortNames: Map<string, string>, suffix: string,
+                            onOpen: SourceOpenHandler, lineRange?: LineRange): HTMLAnchorElement {
+  const name = shortNames.get(source.path) ?? lib.getShortName(source);
+  const anchor = source.toAnchor(name + suffix, onOpen, lineRange);
+  if (source.meta.color) {
+    anchor.style.color = source.meta.color;
+  }
+  return anchor;
+}
+
+/**
+ * 日付の行などに付ける、ソースごとの未完了のタスクの数
+ */
+function appendSourceBadge(el: HTMLElement, source: SourceFile, shortNames: Map<string, string>, undoneCount: number,
+                           onOpen: SourceOpenHandler, lineRange?: LineRange) {
+  const badge = el.createSpan();
+  badge.style.paddingLeft = "4px";
+  badge.append(createSourceAnchor(source, shortNames, `(${undoneCount})`, onOpen, lineRange));
+  if (undoneCount === 0) {
+    badge.style.opacity = "0.5";
+  }
+}
+
+/**
+ * ソースを wt-group ごとにまとめる。グループの無いものが先で、それ以外はグループ名の順
+ */
+function groupSources<T>(items: T[], getSource: (item: T) => SourceFile): [string | undefined, T[]][] {
+  const groups: Map<string | undefined, T[]> = new Map();
+  for (const item of items) {
+    const group = getSource(item).meta.group;
+    const members = groups.get(group) ?? [];
+    members.push(item);
+    groups.set(group, members);
+  }
+  return Array.from(groups.entries()).sort(([a], [b]) => {
+    if (a === undefined) return b === undefined ? 0 : -1;
+    if (b === undefined) return 1;
+    return a.localeCompare(b);
+  });
+}
+
+/**
+ * ブロックの上に、ソースの短い名前と表示名の対応をグループごとに表示する
+ */
+function appendLegend(el: HTMLElement, sources: SourceFile[], shortNames: Map<string, string>,
+                      onOpen: SourceOpenHandler) {
+  if (sources.length === 0) return;
+  const legend = el.createDiv();
+  const sorted = [...sources].sort((a, b) => a.displayName.localeCompare(b.displayName));
+  for (const [group, members] of groupSources(sorted, source => source)) {
+    const line = legend.createDiv();
+    if (group !== undefined) {
+      const groupEl = line.createSpan();
+      groupEl.style.fontWeight = "bold";
+      groupEl.style.paddingRight = "4px";
+      groupEl.textContent = group;
+    }
+    for (const source of members) {
+      const item = line.createSpan();
+      item.style.paddingRight = "8px";
+      item.append(createSourceAnchor(source, shortNames, "", onOpen));
+      item.createSpan().textContent = ": " + source.displayName;
+    }
+  }
+}
+
+/**
+ * カレンダーのマスや帯に、ソースごとのバッジとタスクを追加する
+ */
+function appendSources(el: HTMLElement, node: lib.TemporalNode, showDone: boolean, shortNames: Map<string, string>,
+                       renderText: TextRenderer, onOpen: SourceOpenHandler, onToggle?: TaskToggleHandler) {
+  const badges = el.createSpan();
+  const tasksUL = el.createEl("ul");
+  for (const sourceNode of node.children) {
+    const undoneCount = sourceNode.children.filter(taskNode => !taskNode.task.task.isAllChecked()).length;
+    appendSourceBadge(badges, sourceNode.source, shortNames, undoneCount, onOpen, getHeaderLineRange(sourceNode));
+    for (const taskNode of sourceNode.children) {
+      if (taskNode.task.task.isAllChecked() && !showDone) continue;
+      const onToggleTask: CheckBoxToggleHandler | undefined = onToggle
+        ? (mdNode, checked) => onToggle(taskNode.task, mdNode, checked)
+        : undefined;
+      taskNode.task.task.visit(new TaskHTMLGenerator(onToggleTask, renderText, onOpen, taskNode.task.temporal),
+        tasksUL.createEl("li"));
+    }
+  }
+}
+
+function renderCalendarRow(el: HTMLElement, row: calendar.CalendarRow, range: DateRange, showDone: boolean,
+                           shortNames: Map<string, string>, renderText: TextRenderer, onOpen: SourceOpenHandler,
+                           onToggle?: TaskToggleHandler) {
+  const grid = el.createDiv();
+  grid.style.display = "grid";
+  grid.style.gridTemplateColumns = "repeat(7, minmax(0, 1fr))";
+  row.banners.forEach((banner, index) => {
+    const bannerEl = grid.createDiv();
+    bannerEl.style.gridColumn = `${banner.firstColumn + 1} / ${banner.lastColumn + 2}`;
+    bannerEl.style.gridRow = `${index + 1}`;
+    bannerEl.style.backgroundColor = "var(--background-secondary)";
+    bannerEl.style.borderRadius = "4px";
+    bannerEl.style.margin = "2px";
+    bannerEl.style.padding = "2px 4px";
+    const temporal = banner.temporal.temporal;
+    const label = temporal instanceof DateRange ? getDateRangeLabel(temporal) : temporal.toString();
+    bannerEl.append(createTextSpan(false, label, ""));
+    appendSources(bannerEl, banner.temporal, showDone, shortNames, renderText, onOpen, onToggle);
+  });
+  row.cells.forEach((cell, index) => {
+    const cellEl = grid.createDiv();
+    cellEl.style.gridColumn = `${index + 1}`;
+    cellEl.style.gridRow = `${row.banners.length + 1}`;
+    cellEl.style.border = "1px solid var(--background-modifier-border)";
+    cellEl.style.padding = "2px";
+    cellEl.style.minHeight = "4em";
+    const isToday = cell.date.equals(YMD.today());
+    if (isToday) {
+      cellEl.style.backgroundColor = "var(--background-modifier-hover)";
+      cellEl.style.borderColor = "var(--interactive-accent)";
+    }
+    if (!range.doesInclude(cell.date)) {
+      cellEl.style.opacity = "0.5";
+    }
+    const dateLabel = index === 0 || cell.date.day === 1 ? `${cell.date.month}/${cell.date.day}` : `${cell.date.day}`;
+    cellEl.append(createTextSpan(isToday, dateLabel, ""));
+    for (const node of cell.temporals) {
+      const temporal = node.temporal;
+      const nodeEl = cellEl.createDiv();
+      if (temporal instanceof TimeSlot) {
+        nodeEl.append(createTextSpan(temporal.includes(new Date()), temporal.timeString(), "(NOW)"));
+      }
+      appendSources(nodeEl, node, showDone, shortNames, renderText, onOpen, onToggle);
+    }
+  });
+}
+
+function createSVGElement(parent: Element, tag: string, attributes: Record<string, string | number>): SVGElement {
+  const el = document.createElementNS(SVG_NS, tag);
+  Object.keys(attributes).forEach(key => el.setAttribute(key, String(attributes[key])));
+  parent.appendChild(el);
+  return el;
+}
+
+/**
+ * 週ごとのタスク数と完了数の棒グラフに、完了率の折れ線を重ねる
+ */
+function createStatsChart(el: HTMLElement, weekStats: stats.WeekStats[]) {
+  const width = 400;
+  const height = 120;
+  const barWidth = width / weekStats.length;
+  const maxTotal = Math.max(1, ...weekStats.map(week => week.total));
+  const svg = createSVGElement(el, "svg", {viewBox: `0 0 ${width} ${height}`, width: "100%"});
+  const ratePoints: string[] = [];
+  weekStats.forEach((week, index) => {
+    const x = index * barWidth;
+    const barHeight = (count: number) => height * count / maxTotal;
+    createSVGElement(svg, "rect", {
+      x: x + barWidth * 0.1, y: height - barHeight(week.total), width: barWidth * 0.8, height: barHeight(week.total),
+      fill: "var(--background-modifier-border)",
+    });
+    createSVGElement(svg, "rect", {
+      x: x + barWidth * 0.1, y: height - barHeight(week.done), width: barWidth * 0.8, height: barHeight(week.done),
+      fill: "var(--interactive-accent)",
+    });
+    const rate = stats.getRate(week);
+    if (rate !== undefined) {
+      ratePoints.push(`${x + barWidth / 2},${height - height * rate}`);
+    }
+  });
+  createSVGElement(svg, "polyline", {
+    points: ratePoints.join(" "), fill: "none", stroke: "var(--text-accent)", "stroke-width": 2,
+  });
+}
+
+function formatRate(counts: stats.Counts): string {
+  const rate = stats.getRate(counts);
+  return rate === undefined ? "-" : Math.round(rate * 100) + "%";
+}
+
+/**
+ * 設定の数値。空欄は0ではなく不正な値 (NaN) にする
+ */
+function parseNumberSetting(value: string): number {
+  return value.trim() === "" ? NaN : Number(value);
+}
+
+function tFileToSrcFile(rootPaths: string[], f: TFile, meta: SourceMeta): SourceFile {
   let displayName: string | undefined = undefined;
   for (const rootPath of rootPaths) {
     if (f.path.contains(rootPath)) {
@@ -72,7 +450,7 @@ function tFileToSrcFile(rootPaths: string[], f: TFile): SourceFile {
   }
   const uri = "obsidian://open?file=" +
     encodeURIComponent(f.path);
-  return new SourceFile(uri, displayName);
+  return new SourceFile(uri, displayName, f.path, meta);
 }
 
 class TaskVisitCtx {
@@ -83,24 +461,47 @@ class TaskVisitCtx {
 
 class TemporalCtx extends TaskVisitCtx {
   temporal: Temporal | undefined = undefined;
+  // Whether the tasks of the date come from daily notes
+  isDailyNote = false;
   isOld: boolean | undefined = undefined;
+  details: HTMLDetailsElement | undefined = undefined;
+  // 日付の下に並べる時間帯
+  slotsUL: HTMLElement | undefined = undefined;
 }
 
 class SourceCtx extends TaskVisitCtx {
   sourceFile: SourceFile | undefined = undefined;
-  shortName: string | undefined = undefined;
   undoneCount: number | undefined = undefined;
+  shownCount: number | undefined = undefined;
+  headerLineRange: LineRange | undefined = undefined;
 }
 
 class TaskNodeVisitor implements lib.NodeVisitor<TaskVisitCtx> {
   private readonly oldTaskDateBound: Date;
   private readonly oldTasksUL: HTMLElement;
   private readonly futureTasksUL: HTMLElement;
+  // Whether completed tasks are listed as well as undone ones
+  private readonly showDone: boolean;
+  // Time slots overlapping with ones of other sources
+  private readonly overlappingSlots: Set<lib.TemporalNode>;
+  // Key: file path
+  private readonly shortNames: Map<string, string>;
+  private readonly renderText: TextRenderer;
+  private readonly onOpen: SourceOpenHandler;
+  private readonly onToggle: TaskToggleHandler | undefined;
 
-  constructor(oldTaskDateBound: Date, oldTasksUL: HTMLElement, futureTasksUL: HTMLElement) {
+  constructor(oldTaskDateBound: Date, oldTasksUL: HTMLElement, futureTasksUL: HTMLElement, showDone: boolean,
+              overlappingSlots: Set<lib.TemporalNode>, shortNames: Map<string, string>, renderText: TextRenderer,
+              onOpen: SourceOpenHandler, onToggle?: TaskToggleHandler) {
     this.oldTaskDateBound = oldTaskDateBound;
     this.oldTasksUL = oldTasksUL;
     this.futureTasksUL = futureTasksUL;
+    this.showDone = showDone;
+    this.overlappingSlots = overlappingSlots;
+    this.shortNames = shortNames;
+    this.renderText = renderText;
+    this.onOpen = onOpen;
+    this.onToggle = onToggle;
   }
 
   enter(node: Node, ctx: TaskVisitCtx): () => TaskVisitCtx {
@@ -118,8 +519,13 @@ class TaskNodeVisitor implements lib.NodeVisitor<TaskVisitCtx> {
 
   enterTask(node: lib.TaskNode, ctx: TaskVisitCtx): () => TaskVisitCtx {
     ctx.isDone = node.task.task.isAllChecked();
-    if (!ctx.isDone) {
-      node.task.task.visit(new TaskHTMLGenerator(), ctx.li!);
+    if (!ctx.isDone || this.showDone) {
+      const onToggle = this.onToggle;
+      const onToggleTask: CheckBoxToggleHandler | undefined = onToggle
+        ? (mdNode, checked) => onToggle(node.task, mdNode, checked)
+        : undefined;
+      node.task.task.visit(new TaskHTMLGenerator(onToggleTask, this.renderText, this.onOpen, node.task.temporal),
+        ctx.li!);
     }
     // empty context because TaskNode doesn't have children
     return () => TaskVisitCtx.EMPTY;
@@ -141,66 +547,138 @@ class TaskNodeVisitor implements lib.NodeVisitor<TaskVisitCtx> {
 
   exitRoot(node: Node, ctx: TaskVisitCtx, childrenCtx: TemporalCtx[]): void {
     let prevTemporal: Temporal | undefined = undefined;
+    let dayCtx: TemporalCtx | undefined = undefined;
     for (const childCtx of childrenCtx) {
-      const tgtUL = childCtx.isOld ? this.oldTasksUL : this.futureTasksUL;
-      // 日付の補完
-      if (prevTemporal) {
-        let cursor = prevTemporal.getDate();
-        while (true) {
-          cursor = cursor.plusDays(1)
-          if (!cursor.earlierThan(childCtx.temporal!.getDate())) {
-            break;
-          }
-          tgtUL.createEl("li").append(createTextSpan(cursor.equals(YMD.today()), cursor.toString(), "(TODAY)"));
+      const temporal = childCtx.temporal!;
+      // 時間帯はその日付の下にまとめる
+      if (temporal instanceof TimeSlot) {
+        if (!dayCtx || !dayCtx.temporal!.equals(temporal.date)) {
+          dayCtx = this.createDayCtx(temporal.date);
+          this.appendTemporal(dayCtx, prevTemporal);
+          prevTemporal = dayCtx.temporal;
+        }
+        if (!dayCtx.slotsUL) {
+          dayCtx.slotsUL = dayCtx.details!.createEl("ul");
         }
+        dayCtx.slotsUL.append(childCtx.li!);
+        continue;
       }
+      if (temporal instanceof YMD) {
+        dayCtx = childCtx;
+      }
+      this.appendTemporal(childCtx, prevTemporal);
+      prevTemporal = temporal;
+    }
+  }
 
-      tgtUL.append(childCtx.li!);
-      prevTemporal = childCtx.temporal;
+  private appendTemporal(childCtx: TemporalCtx, prevTemporal: Temporal | undefined) {
+    const tgtUL = childCtx.isOld ? this.oldTasksUL : this.futureTasksUL;
+    const appendWeek = (week: DateRange) => {
+      tgtUL.createEl("li").append(createTextSpan(week.doesInclude(YMD.today()), getDateRangeLabel(week), "(THIS WEEK)"));
+    };
+    const date = childCtx.temporal!.getDate();
+    // デイリーノートの日付は、週の見出しが無くてもその週の下に並ぶようにする
+    const missingWeek = childCtx.isDailyNote ? lib.getMissingWeek(date, prevTemporal) : undefined;
+    // 日付の補完
+    if (prevTemporal) {
+      let cursor = prevTemporal.getDate();
+      while (true) {
+        cursor = cursor.plusDays(1)
+        if (!cursor.earlierThan(date)) {
+          break;
+        }
+        if (missingWeek && cursor.equals(missingWeek.from)) {
+          appendWeek(missingWeek);
+        }
+        tgtUL.createEl("li").append(createTextSpan(cursor.equals(YMD.today()), cursor.toString(), "(TODAY)"));
+      }
     }
+    // 補完した日付で週の始まりを通っていなければ、ここで追加する
+    if (missingWeek && (prevTemporal === undefined || missingWeek.from.equals(date))) {
+      appendWeek(missingWeek);
+    }
+
+    tgtUL.append(childCtx.li!);
   }
 
-  exitTemporal(node: lib.TemporalNode, ctx: TemporalCtx, childrenCtx: SourceCtx[]): void {
-    const temporal = node.temporal;
+  private isOld(temporal: Temporal): boolean {
+    return temporal.getDate().earlierThan(YMD.fromDate(this.oldTaskDateBound));
+  }
+
+  private createDetails(ctx: TemporalCtx, temporal: Temporal): HTMLElement {
     ctx.temporal = temporal;
-    ctx.isOld = temporal.getDate().earlierThan(YMD.fromDate(this.oldTaskDateBound));
+    ctx.isOld = this.isOld(temporal);
     const details = ctx.li!.createEl("details");
     details.open = true;
     details.classList.add(CLASS_UNDONE);
-    const summary = details.createEl("summary");
+    details.setAttribute(ATTR_DETAILS_KEY, temporal.toString());
+    ctx.details = details;
+    return details.createEl("summary");
+  }
+
+  /**
+   * 時間帯のタスクしかない日付の見出しを作る
+   */
+  private createDayCtx(date: YMD): TemporalCtx {
+    const ctx = new TemporalCtx();
+    const summary = this.createDetails(ctx, date);
+    summary.append(createTextSpan(date.equals(YMD.today()), date.toString(), "(TODAY)"));
+    return ctx;
+  }
+
+  exitTemporal(node: lib.TemporalNode, ctx: TemporalCtx, childrenCtx: SourceCtx[]): void {
+    const temporal = node.temporal;
+    const summary = this.createDetails(ctx, temporal);
+    ctx.isDailyNote = temporal instanceof YMD
+      && node.children.some(sourceNode => lib.getDailyNoteDate(sourceNode.source.path) !== undefined);
     if (temporal instanceof YMD) {
       summary.append(createTextSpan(temporal.equals(YMD.today()), temporal.toString(), "(TODAY)"));
+    } else if (temporal instanceof TimeSlot) {
+      summary.append(createTextSpan(temporal.includes(new Date()), temporal.timeString(), "(NOW)"));
+      if (this.overlappingSlots.has(node)) {
+        const warning = summary.createSpan();
+        warning.style.color = "var(--text-error)";
+        warning.style.paddingRight = "4px";
+        warning.textContent = "(OVERLAPPING)";
+      }
     } else if (temporal instanceof DateRange) {
-      summary.append(createTextSpan(temporal.doesInclude(YMD.today()), temporal.toString(), "(THIS WEEK)"));
+      summary.append(createTextSpan(temporal.doesInclude(YMD.today()), getDateRangeLabel(temporal), "(THIS WEEK)"));
+    } else if (temporal instanceof SpanInWeek) {
+      const label = `${temporal.span.toString()} (spanning ${temporal.week.rangeString()})`;
+      summary.append(createTextSpan(temporal.week.doesInclude(YMD.today()), label, "(THIS WEEK)"));
     }
-    const undoneUL = details.createEl("ul");
-    for (const childCtx of childrenCtx) {
-      // タスクの概要を日付の行にinlineで追加する
-      const span = summary.createSpan();
-      span.style.paddingLeft = "4px";
-      span.append(childCtx.sourceFile!.toAnchor(`${childCtx.shortName}(${childCtx.undoneCount})`))
-      if (childCtx.undoneCount === 0) {
-        span.style.opacity = "0.5";
+    const undoneUL = ctx.details!.createEl("ul");
+    for (const [group, members] of groupSources(childrenCtx, childCtx => childCtx.sourceFile!)) {
+      let groupUL = undoneUL;
+      const shownMembers = members.filter(childCtx => childCtx.shownCount! > 0);
+      if (group !== undefined && shownMembers.length !== 0) {
+        const groupLI = undoneUL.createEl("li");
+        groupLI.createSpan().textContent = group;
+        groupUL = groupLI.createEl("ul");
       }
-      // 未完了タスクがあれば、undoneULに追加する
-      if (childCtx.undoneCount! > 0) {
-        undoneUL.append(childCtx.li!);
+      for (const childCtx of members) {
+        // タスクの概要を日付の行にinlineで追加する
+        appendSourceBadge(summary, childCtx.sourceFile!, this.shortNames, childCtx.undoneCount!,
+          this.onOpen, childCtx.headerLineRange);
       }
+      // 表示するタスクがあれば、undoneULに追加する
+      groupUL.append(...shownMembers.map(childCtx => childCtx.li!));
     }
   }
 
   exitSource(node: lib.SourceNode, ctx: SourceCtx, childrenCtx: TaskVisitCtx[]): void {
     const pathLI = ctx.li!
-    pathLI.append(node.source.toAnchor(node.source.displayName));
+    ctx.headerLineRange = getHeaderLineRange(node);
+    pathLI.append(node.source.toAnchor(node.source.displayName, this.onOpen, ctx.headerLineRange));
 
     const pathUL = pathLI.createEl("ul");
-    pathUL.append(...childrenCtx.filter(v => !v.isDone).map(v => v.li!));
+    const shown = childrenCtx.filter(v => !v.isDone || this.showDone);
+    pathUL.append(...shown.map(v => v.li!));
+    ctx.shownCount = shown.length;
 
     const skipped = childrenCtx.filter(value => value.isDone).length;
     ctx.undoneCount = childrenCtx.length - skipped;
 
-    const dispNameElements = node.source.displayName.split(/([-\/])/);
-    ctx.shortName = dispNameElements[dispNameElements.length - 1].substring(0, 2);
     ctx.sourceFile = node.source;
   }
 
@@ -217,14 +695,31 @@ export default class WTCPlugin extends Plugin {
   latestUpdateTimes: Map<string, number> = new Map();
   // Key: root path, Value: tasks
   tasksMap: Map<string, RootNode> = new Map();
+  // Key: root path, Value: collection in progress, resolved to false if its result was dropped
+  collectingTasks: Map<string, Promise<boolean>> = new Map();
+  // Parsed tasks of each file, shared by all blocks
+  taskIndex: TaskIndex = new TaskIndex();
+
+  // Blocks currently rendered
+  taskBlocks: Set<TaskBlockRenderChild> = new Set();
 
-  async showTasks(src: string[], el: HTMLElement) {
-    await this.collectTasksIfNeeded(src);
-    const tasks = this.tasksMap.get(src.join(";"));
-    if (!tasks) throw "Cache may be broken.";
+  /**
+   * @param component manages the lifecycle of the rendered task texts
+   * @param foldOldTasks false to show old tasks in place instead of in "Old Tasks"
+   */
+  async showTasks(query: Query, el: HTMLElement, component: Component, onToggle?: TaskToggleHandler,
+                  foldOldTasks: boolean = true) {
+    await this.collectTasksIfNeeded(query.from);
+    const collected = this.tasksMap.get(query.from.join(";"));
+    if (!collected) throw "Cache may be broken.";
+    const tasks = filterTasks(collected, query, YMD.today());
 
     const oldTaskDateBound = new Date();
-    oldTaskDateBound.setDate(oldTaskDateBound.getDate() - 7);
+    oldTaskDateBound.setDate(oldTaskDateBound.getDate() - this.settings.oldTaskDays);
+    if (!foldOldTasks) {
+      // Nothing is older than this.
+      oldTaskDateBound.setTime(0);
+    }
     const checkbox = el.createEl("input", { type: "checkbox" });
     checkbox.addEventListener("click",() => {
       const elements = document.getElementsByClassName(CLASS_UNDONE);
@@ -236,10 +731,20 @@ export default class WTCPlugin extends Plugin {
       }
     })
     el.createSpan().textContent = "Summary"
+    const rolloverButton = el.createEl("button", { text: "Roll over" });
+    rolloverButton.style.marginLeft = "8px";
+    rolloverButton.addEventListener("click", () => this.rollOver(tasks));
+    const sources = lib.collectSources(tasks);
+    const shortNames = lib.getShortNames(sources);
+    appendLegend(el, sources, shortNames, this.openSourceHandler);
 
     const details = el.createEl("details")
+    details.setAttribute(ATTR_DETAILS_KEY, "Old Tasks");
     details.createEl("summary").textContent = "Old Tasks";
     const oldTasksUL = details.createEl("ul");
+    if (!foldOldTasks) {
+      details.style.display = "none";
+    }
     el.createEl("hr");
     const futureTasksUL = el.createEl("ul");
 
@@ -249,33 +754,333 @@ export default class WTCPlugin extends Plugin {
       const malformedUL = malformedLI.createEl("ul");
       tasks.malformedMDs.forEach(malformedMD => {
         const li = malformedUL.createEl("li");
-        li.textContent = malformedMD.toString();
+        const srcFile = malformedMD.node.srcFile;
+        const lineNumber = malformedMD.getLineNumber();
+        const position = lineNumber !== undefined ? `${srcFile.displayName}:${lineNumber}` : srcFile.displayName;
+        li.append(srcFile.toAnchor(position, this.openSourceHandler, malformedMD.node.line && {
+          from: malformedMD.node.line.lineNumber,
+          to: malformedMD.node.line.lineNumber,
+        }));
+        const severity = li.createSpan();
+        severity.style.padding = "0 4px";
+        severity.style.color = malformedMD.severity === "error" ? "var(--text-error)" : "var(--text-warning)";
+        severity.textContent = malformedMD.severity;
+        li.createSpan().textContent = malformedMD.reason;
+        const fix = malformedMD.fix;
+        if (fix) {
+          const fixButton = li.createEl("button", {text: fix.title});
+          fixButton.style.marginLeft = "8px";
+          // The block is rendered again when the file is modified.
+          fixButton.addEventListener("click", () => {
+            this.editSourceFile(srcFile, fix.apply).catch(e => new Notice("WTC: " + e));
+          });
+        }
       });
     }
 
+    const expanded = lib.expandSpans(tasks);
+    expanded.sortByDateIfNeeded();
+    const showDone = query.status === "done" || query.status === "all";
+    const overlappingSlots = lib.findOverlappingSlots(expanded);
+    expanded.visit<TaskVisitCtx>(TaskVisitCtx.EMPTY,
+      new TaskNodeVisitor(oldTaskDateBound, oldTasksUL, futureTasksUL, showDone, overlappingSlots, shortNames,
+        createMarkdownTextRenderer(this.app, component), this.openSourceHandler, onToggle));
+  }
+
+  /**
+   * Shows the tasks as a grid of weeks, with tasks of periods as banners across the days.
+   */
+  async showCalendar(query: Query, el: HTMLElement, component: Component, onToggle?: TaskToggleHandler) {
+    await this.collectTasksIfNeeded(query.from);
+    const collected = this.tasksMap.get(query.from.join(";"));
+    if (!collected) throw "Cache may be broken.";
+    const today = YMD.today();
+    const range = calendar.getCalendarRange(query, today);
+    const tasks = filterTasks(collected, Object.assign({}, query, {between: range}), today);
     tasks.sortByDateIfNeeded();
-    tasks.visit<TaskVisitCtx>(TaskVisitCtx.EMPTY, new TaskNodeVisitor(oldTaskDateBound, oldTasksUL, futureTasksUL));
+
+    const showDone = query.status === "done" || query.status === "all";
+    const sources = lib.collectSources(tasks);
+    const shortNames = lib.getShortNames(sources);
+    const onOpen = this.openSourceHandler;
+    appendLegend(el, sources, shortNames, onOpen);
+    const header = el.createDiv();
+    header.style.display = "grid";
+    header.style.gridTemplateColumns = "repeat(7, minmax(0, 1fr))";
+    for (let i = 0; i < 7; i++) {
+      const dayEl = header.createDiv();
+      dayEl.style.textAlign = "center";
+      dayEl.textContent = DAY_NAMES[(this.settings.weekBeginDay + i) % 7];
+    }
+    const renderText = createMarkdownTextRenderer(this.app, component);
+    for (const row of calendar.layoutCalendar(tasks, range)) {
+      renderCalendarRow(el, row, range, showDone, shortNames, renderText, onOpen, onToggle);
+    }
+  }
+
+  /**
+   * Shows completed and total tasks of the last weeks, per week and per source.
+   */
+  async showStats(query: Query, el: HTMLElement) {
+    await this.collectTasksIfNeeded(query.from);
+    const collected = this.tasksMap.get(query.from.join(";"));
+    if (!collected) throw "Cache may be broken.";
+    const today = YMD.today();
+    const weeks = stats.getStatsWeeks(today, query.limitWeeks ?? stats.DEFAULT_STATS_WEEKS);
+    const range = stats.getStatsRange(weeks);
+    if (range === undefined) {
+      el.createEl("p").textContent = "WTC: no weeks to show";
+      return;
+    }
+    const tasks = filterTasks(collected,
+      Object.assign({}, query, {between: range, limitWeeks: undefined, status: undefined}), today);
+    const taskStats = stats.computeStats(tasks, weeks, today);
+
+    createStatsChart(el, taskStats.weeks);
+
+    const sources: SourceFile[] = [];
+    taskStats.weeks.forEach(week => week.bySource.forEach(counts => {
+      if (!sources.some(source => source.equals(counts.source))) sources.push(counts.source);
+    }));
+    sources.sort((a, b) => a.displayName.localeCompare(b.displayName));
+    const shortNames = lib.getShortNames(sources);
+    const table = el.createEl("table");
+    const headerRow = table.createEl("tr");
+    ["Week", "Done", "Rate"].forEach(text => headerRow.createEl("th").textContent = text);
+    sources.forEach(source => {
+      headerRow.createEl("th").append(createSourceAnchor(source, shortNames, "", this.openSourceHandler));
+    });
+    for (const week of taskStats.weeks) {
+      const row = table.createEl("tr");
+      row.createEl("td").append(createTextSpan(week.week.doesInclude(today), getDateRangeLabel(week.week), "(THIS WEEK)"));
+      row.createEl("td").textContent = `${week.done}/${week.total}`;
+      row.createEl("td").textContent = formatRate(week);
+      for (const source of sources) {
+        const counts = week.bySource.get(source.path);
+        row.createEl("td").textContent = counts ? `${counts.done}/${counts.total}` : "";
+      }
+    }
+
+    if (taskStats.carriedOver.length !== 0) {
+      el.createEl("p").textContent = "Most carried-over work";
+      const carriedOverUL = el.createEl("ul");
+      taskStats.carriedOver.slice(0, CARRIED_OVER_SOURCES).forEach(counts => {
+        const li = carriedOverUL.createEl("li");
+        li.append(counts.source.toAnchor(counts.source.displayName, this.openSourceHandler));
+        li.createSpan().textContent = ` (${counts.total})`;
+      });
+    }
+  }
+
+  /**
+   * Opens the file in a leaf scrolled to the lines, selecting them if the file is shown in the editor.
+   * Modifier-click opens a new leaf.
+   */
+  async openSource(srcFile: SourceFile, lineRange: LineRange | undefined, ev: MouseEvent) {
+    const file = this.app.vault.getFileByPath(srcFile.path);
+    if (!file) {
+      new Notice("WTC: file not found: " + srcFile.path);
+      return;
+    }
+    const leaf = this.app.workspace.getLeaf(Keymap.isModEvent(ev));
+    await leaf.openFile(file, lineRange ? {active: true, eState: {line: lineRange.from}} : {active: true});
+    const view = leaf.view;
+    if (!lineRange || !(view instanceof MarkdownView) || view.getMode() !== "source") return;
+    const editor = view.editor;
+    const to = Math.min(lineRange.to, editor.lastLine());
+    editor.setSelection({line: lineRange.from, ch: 0}, {line: to, ch: editor.getLine(to).length});
+    editor.scrollIntoView({from: {line: lineRange.from, ch: 0}, to: {line: to, ch: 0}}, true);
+  }
+
+  readonly openSourceHandler: SourceOpenHandler = (srcFile, lineRange, ev) => {
+    this.openSource(srcFile, lineRange, ev).catch(e => new Notice("WTC: " + e));
+  };
+
+  /**
+   * Writes the new state of the checkbox back to the line the node came from.
+   * For a task expanded from a recurrence rule, the date is recorded under the rule instead.
+   * The write is refused if the file has been changed since it was read.
+   *
+   * @return true if the file was updated
+   */
+  async toggleTask(task: Task, node: MDListNode, checked: boolean): Promise<boolean> {
+    const occurrence = task.occurrence;
+    if (occurrence) {
+      return this.editSourceFile(node.srcFile, lines => recurrence.setOccurrenceDone(lines, occurrence, checked));
+    }
+    const line = node.line;
+    if (!line) return false;
+    const newLine = md.setCheckBoxOfLine(line.rawText, checked);
+    if (newLine === undefined) return false;
+    return this.editSourceFile(node.srcFile, lines => {
+      if (lines[line.lineNumber] !== line.rawText) return undefined;
+      const updated = Array.from(lines);
+      updated[line.lineNumber] = newLine;
+      return updated;
+    });
+  }
+
+  /**
+   * @param edit returns undefined if the lines are not the ones the tasks were parsed from
+   * @return true if the file was updated
+   */
+  async editSourceFile(srcFile: SourceFile, edit: (lines: string[]) => string[] | undefined): Promise<boolean> {
+    const file = this.app.vault.getFileByPath(srcFile.path);
+    if (!file) {
+      new Notice("WTC: file not found: " + srcFile.path);
+      return false;
+    }
+    const staleMessage = "WTC: " + srcFile.displayName + " has been changed since it was read. Reload and try again.";
+    const readMTime = this.taskIndex.getMTime(file.path);
+    if (readMTime === undefined || file.stat.mtime !== readMTime) {
+      new Notice(staleMessage);
+      this.invalidateCache();
+      return false;
+    }
+
+    let isStale = false;
+    await this.app.vault.process(file, data => {
+      const edited = edit(data.split("\n"));
+      if (edited === undefined) {
+        isStale = true;
+        return data;
+      }
+      return edited.join("\n");
+    });
+    if (isStale) {
+      new Notice(staleMessage);
+    }
+    // The cached tasks no longer reflect the file in either case.
+    this.invalidateCache();
+    return !isStale;
+  }
+
+  /**
+   * Shows a preview of moving undone tasks in the past to today or this week, and moves them if confirmed.
+   */
+  rollOver(tasks: RootNode) {
+    const movesByPath = rollover.planRollover(tasks, YMD.today());
+    if (movesByPath.size === 0) {
+      new Notice("WTC: no undone tasks to roll over");
+      return;
+    }
+    new RolloverModal(this.app, movesByPath, async () => {
+      for (const moves of Array.from(movesByPath.values())) {
+        await this.editSourceFile(moves[0].task.task.srcFile, lines => rollover.applyRollover(lines, moves));
+      }
+    }).open();
+  }
+
+  /**
+   * Rolls over undone tasks in the active note.
+   */
+  async rollOverActiveFile() {
+    const file = this.app.workspace.getActiveFile();
+    if (file === null || file.extension !== "md") return;
+    const srcFile = new SourceFile("obsidian://open?file=" + encodeURIComponent(file.path),
+      file.path.replace(/\.md$/, ""), file.path,
+      parseSourceMeta(this.app.metadataCache.getFileCache(file)?.frontmatter));
+    // Parsed apart from the shared index, whose entries carry the display names relative to the root folders.
+    const content = await this.app.vault.cachedRead(file);
+    this.rollOver(lib.parseContentToTasks(srcFile, content, lib.getDailyNoteDate(file.path)) ?? new RootNode());
+  }
+
+  /**
+   * Writes the tasks under the root folders into an iCalendar file in the vault.
+   * An existing file is overwritten.
+   */
+  async exportICalendar(rootPaths: string[], outputPath: string) {
+    try {
+      await this.collectTasksIfNeeded(rootPaths);
+    } catch (e) {
+      new Notice("WTC: " + e);
+      return;
+    }
+    const tasks = this.tasksMap.get(rootPaths.join(";"))!;
+    const content = ical.generateICalendar(tasks, new Date());
+    try {
+      const existing = this.app.vault.getFileByPath(outputPath);
+      if (existing) {
+        await this.app.vault.modify(existing, content);
+      } else {
+        // Fails when the folder does not exist or the path is invalid.
+        await this.app.vault.create(outputPath, content);
+      }
+    } catch (e) {
+      new Notice("WTC: " + e);
+      return;
+    }
+    new Notice("WTC: exported to " + outputPath);
+  }
+
+  invalidateCache() {
+    this.latestUpdateTimes.clear();
+    // Collections in progress may have missed the change, so their results are dropped.
+    this.collectingTasks.clear();
+  }
+
+  /**
+   * Collects all tasks again, reading every file even if it is fresh enough or not modified.
+   */
+  recollectTasks() {
+    this.taskIndex.clear();
+    this.invalidateCache();
+    this.taskBlocks.forEach(block => block.requestRerender());
+    this.getWeeklyTasksViews().forEach(view => view.requestRerender());
+    new Notice("WTC: collecting tasks again");
+  }
+
+  /**
+   * Moves the cursor to the header of this week in the editor.
+   */
+  jumpToThisWeek(editor: Editor) {
+    const thisWeek = Week.fromYMD(YMD.today()).range;
+    const lineNumber = lib.findHeaderLineNumber(editor.getValue().split("\n"), thisWeek);
+    if (lineNumber === undefined) {
+      new Notice("WTC: no header of this week in the current note");
+      return;
+    }
+    const position = {line: lineNumber, ch: 0};
+    editor.setCursor(position);
+    editor.scrollIntoView({from: position, to: position}, true);
   }
 
   async collectTasksIfNeeded(rootPaths: string[]) {
-    const latestUpdateTime = this.latestUpdateTimes.get(rootPaths.join(";"));
+    const key = rootPaths.join(";");
+    // Wait for the collection in progress instead of starting another one.
+    for (let collecting = this.collectingTasks.get(key); collecting; collecting = this.collectingTasks.get(key)) {
+      if (await collecting) return;
+    }
+    const latestUpdateTime = this.latestUpdateTimes.get(key);
     // Do nothing if we already have collected tasks and they are fresh enough.
     if (latestUpdateTime !== undefined
-      && getEpochTimeMillis() < (latestUpdateTime + 1000)) {
+      && getEpochTimeMillis() < (latestUpdateTime + this.settings.debounceMillis)) {
       console.debug("Debounce", rootPaths);
       return;
     }
-    this.latestUpdateTimes.set(rootPaths.join(";"), getEpochTimeMillis());
 
     console.debug("Update", rootPaths);
+    const startTime = getEpochTimeMillis();
+    const promise = this.collectTasks(rootPaths).then(tasks => {
+      // Drop the result if the cache was invalidated while collecting.
+      if (this.collectingTasks.get(key) !== promise) return false;
+      this.tasksMap.set(key, tasks);
+      this.latestUpdateTimes.set(key, startTime);
+      return true;
+    }).finally(() => {
+      if (this.collectingTasks.get(key) === promise) this.collectingTasks.delete(key);
+    });
+    this.collectingTasks.set(key, promise);
+    if (!await promise) await this.collectTasksIfNeeded(rootPaths);
+  }
 
-    const rootFolders = rootPaths
-      .map(value => this.app.vault.getFolderByPath(value))
-      .filter(value => value !== null)
-      .map(value => value!);
-    if (rootFolders.length !== rootPaths.length) {
-      throw "some root folders cannot be found";
+  private async collectTasks(rootPaths: string[]): Promise<RootNode> {
+
+    const missingPaths = rootPaths.filter(value => this.app.vault.getFolderByPath(value) === null);
+    if (missingPaths.length !== 0) {
+      throw "folders not found: " + missingPaths.join(", ");
     }
+    const rootFolders = rootPaths.map(value => this.app.vault.getFolderByPath(value)!);
 
     const folderStack = [...rootFolders];
     const tasks = new RootNode();
@@ -286,40 +1091,149 @@ export default class WTCPlugin extends Plugin {
         if (child instanceof TFolder) {
           folderStack.push(child);
         } else if (child instanceof TFile) {
-          const content = await this.app.vault.cachedRead(child);
-          const fileTasks = lib.parseContentToTasks(tFileToSrcFile(rootPaths, child), content);
+          if (child.extension !== "md") continue;
+          const srcFile = tFileToSrcFile(rootPaths, child,
+            parseSourceMeta(this.app.metadataCache.getFileCache(child)?.frontmatter));
+          // Only new or modified files are read and parsed again.
+          if (this.taskIndex.needsUpdate(child.path, child.stat.mtime)) {
+            const content = await this.app.vault.cachedRead(child);
+            this.taskIndex.update(srcFile, child.stat.mtime, content);
+          }
+          const fileTasks = this.taskIndex.getTasks(srcFile);
           if (fileTasks) {
-            for (const malformedMD of fileTasks.malformedMDs) {
-              console.log(malformedMD);
-            }
             tasks.addAllTasks(fileTasks);
+            tasks.malformedMDs.push(...fileTasks.malformedMDs);
           }
         } else {
           throw "Unreachable";
         }
       }
     }
-    this.tasksMap.set(rootPaths.join(";"), tasks);
+    return tasks;
+  }
+
+  onFileChanged(file: TAbstractFile, oldPath?: string) {
+    if (!(file instanceof TFile)) return;
+    this.taskIndex.remove(oldPath ?? file.path);
+    this.invalidateCache();
+    this.taskBlocks.forEach(block => {
+      if (block.watches(file.path) || (oldPath !== undefined && block.watches(oldPath))) {
+        block.requestRerender();
+      }
+    });
+    this.getWeeklyTasksViews().forEach(view => {
+      if (view.watches(file.path) || (oldPath !== undefined && view.watches(oldPath))) {
+        view.requestRerender();
+      }
+    });
+  }
+
+  getWeeklyTasksViews(): WeeklyTasksView[] {
+    return this.app.workspace.getLeavesOfType(VIEW_TYPE_WEEKLY_TASKS)
+      .map(leaf => leaf.view)
+      .filter((view): view is WeeklyTasksView => view instanceof WeeklyTasksView);
+  }
+
+  /**
+   * Reveals the sidebar view, opening it in the right sidebar if it is not open yet.
+   */
+  async activateWeeklyTasksView() {
+    const {workspace} = this.app;
+    let leaf = workspace.getLeavesOfType(VIEW_TYPE_WEEKLY_TASKS)[0];
+    if (!leaf) {
+      const rightLeaf = workspace.getRightLeaf(false);
+      if (!rightLeaf) return;
+      await rightLeaf.setViewState({type: VIEW_TYPE_WEEKLY_TASKS, active: true});
+      leaf = rightLeaf;
+    }
+    await workspace.revealLeaf(leaf);
   }
 
   async onload() {
     await this.loadSettings();
 
-    this.registerMarkdownCodeBlockProcessor("weekly-task-collect", async (src, el) => {
-      try {
-        const before = getEpochTimeMillis();
-        const paths = src.split("\n")
-          .map(value => value.trim())
-          .filter(value => value !== "");
-        await this.showTasks(paths, el);
-        const after = getEpochTimeMillis();
-        console.debug("showTasks() took " + (after - before) + " ms");
-      } catch (e) {
-        console.error(e);
-        el.textContent = "WTC: an error occurred: " + e;
+    this.registerEvent(this.app.vault.on("modify", file => this.onFileChanged(file)));
+    this.registerEvent(this.app.vault.on("delete", file => this.onFileChanged(file)));
+    this.registerEvent(this.app.vault.on("rename", (file, oldPath) => this.onFileChanged(file, oldPath)));
+    // The frontmatter (wt-label etc.) may be updated after "modify".
+    this.registerEvent(this.app.metadataCache.on("changed", file => this.onFileChanged(file)));
+    // "create" is also fired for every existing file while the vault is loaded.
+    this.app.workspace.onLayoutReady(async () => {
+      this.registerEvent(this.app.vault.on("create", file => this.onFileChanged(file)));
+      if (this.settings.openViewOnStartup) {
+        await this.activateWeeklyTasksView();
       }
     });
 
+    this.registerView(VIEW_TYPE_WEEKLY_TASKS, leaf => new WeeklyTasksView(leaf, this));
+
+    this.registerTaskBlock("weekly-task-collect",
+      (query, el, component, onToggle) => this.showTasks(query, el, component, onToggle));
+    this.registerTaskBlock("weekly-task-calendar",
+      (query, el, component, onToggle) => this.showCalendar(query, el, component, onToggle));
+    this.registerTaskBlock("weekly-task-stats", (query, el) => this.showStats(query, el));
+
+    this.addSettingTab(new WTCSettingTab(this.app, this));
+
+    this.addCommand({
+      id: "open-weekly-tasks-view",
+      name: "Open the weekly tasks view",
+      callback: () => this.activateWeeklyTasksView(),
+    });
+    this.addCommand({
+      id: "recollect-tasks",
+      name: "Collect tasks again",
+      callback: () => this.recollectTasks(),
+    });
+    this.addCommand({
+      id: "insert-weekly-template",
+      name: "Insert a template for weekly tasks",
+      callback: () => new TemplateInsertionModal(this.app).open(),
+    });
+    this.addCommand({
+      id: "insert-regular-task-template",
+      name: "Insert a template for regular tasks",
+      callback: () => new RegularTaskInsertionModal(this.app).open(),
+    });
+    this.addCommand({
+      id: "insert-this-week-template",
+      name: "Insert a template for this week at the cursor",
+      editorCallback: editor => {
+        const thisWeek = Week.fromYMD(YMD.today()).range;
+        editor.replaceSelection(lib.generateTaskListTemplate(thisWeek.from, thisWeek.to));
+      },
+    });
+    this.addCommand({
+      id: "insert-today-header",
+      name: "Insert the header of today at the cursor",
+      editorCallback: editor => editor.replaceSelection("- " + YMD.today().toString()),
+    });
+    this.addCommand({
+      id: "insert-this-week-header",
+      name: "Insert the header of this week at the cursor",
+      editorCallback: editor => editor.replaceSelection("- " + Week.fromYMD(YMD.today()).range.toString()),
+    });
+    this.addCommand({
+      id: "jump-to-this-week",
+      name: "Jump to the header of this week",
+      editorCallback: editor => this.jumpToThisWeek(editor),
+    });
+    this.addCommand({
+      id: "roll-over-active-file",
+      name: "Roll over undone tasks in the current note",
+      callback: () => this.rollOverActiveFile(),
+    });
+    this.addCommand({
+      id: "export-icalendar",
+      name: "Export tasks to an iCalendar file",
+      callback: () => new ICalExportModal(this.app, this).open(),
+    });
+    this.addCommand({
+      id: "import-icalendar",
+      name: "Import events from an iCalendar file into the current note",
+      callback: () => new ICalImportModal(this.app).open(),
+    });
+
     this.addRibbonIcon("list-todo", "Insert a template for weekly tasks", () => {
       new TemplateInsertionModal(this.app).open();
     });
@@ -328,16 +1242,384 @@ export default class WTCPlugin extends Plugin {
     })
   }
 
+  private registerTaskBlock(language: string, show: TaskBlockShow) {
+    this.registerMarkdownCodeBlockProcessor(language, async (src, el, ctx) => {
+      const query = parseQuery(src);
+      if (Array.isArray(query)) {
+        el.createEl("p").textContent = "WTC: invalid query";
+        const errorUL = el.createEl("ul");
+        query.forEach(error => {
+          errorUL.createEl("li").textContent = error.toString();
+        });
+        return;
+      }
+      const block = new TaskBlockRenderChild(this, el, query, show);
+      ctx.addChild(block);
+      await block.rerender();
+    });
+  }
+
   onunload() {
 
   }
 
   async loadSettings() {
-    this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+    this.settings = settings.loadSettingsFrom(await this.loadData());
+    settings.setSettings(this.settings);
   }
 
   async saveSettings() {
-    //await this.saveData(this.settings);
+    const previous = settings.getSettings();
+    settings.setSettings(this.settings);
+    // Tasks have to be parsed again with the new date format, but not with the other settings.
+    if (settings.isParsingChanged(previous, this.settings)) {
+      this.taskIndex.clear();
+    }
+    this.invalidateCache();
+    await this.saveData(this.settings);
+    this.getWeeklyTasksViews().forEach(view => view.requestRerender());
+  }
+}
+
+function findScrollParent(el: HTMLElement): HTMLElement | undefined {
+  for (let cursor = el.parentElement; cursor; cursor = cursor.parentElement) {
+    if (cursor.scrollHeight > cursor.clientHeight) return cursor;
+  }
+  return undefined;
+}
+
+/**
+ * Renders the tasks matching the query into the element.
+ */
+type TaskBlockShow = (query: Query, el: HTMLElement, component: Component, onToggle?: TaskToggleHandler) => Promise<void>;
+
+/**
+ * A rendered weekly-task-collect, weekly-task-calendar or weekly-task-stats block.
+ * It is re-rendered in place when a file under its root paths changes.
+ */
+class TaskBlockRenderChild extends MarkdownRenderChild {
+  private readonly plugin: WTCPlugin;
+  private readonly query: Query;
+  private readonly show: TaskBlockShow;
+  // Owns what is rendered from task texts, replaced on every render
+  private textComponent: Component | undefined = undefined;
+  // The last render, which the next one waits for
+  private rendering: Promise<void> = Promise.resolve();
+  readonly requestRerender = debounce(() => this.rerender(), RERENDER_DELAY_MILLIS, true);
+
+  constructor(plugin: WTCPlugin, containerEl: HTMLElement, query: Query, show: TaskBlockShow) {
+    super(containerEl);
+    this.plugin = plugin;
+    this.query = query;
+    this.show = show;
+  }
+
+  onload() {
+    this.plugin.taskBlocks.add(this);
+  }
+
+  onunload() {
+    this.requestRerender.cancel();
+    this.plugin.taskBlocks.delete(this);
+  }
+
+  watches(path: string): boolean {
+    return this.query.from.some(rootPath => path.startsWith(rootPath + "/"));
+  }
+
+  private async render(el: HTMLElement) {
+    const onToggle: TaskToggleHandler = async (task, node, checked) => {
+      if (!await this.plugin.toggleTask(task, node, checked)) return;
+      await this.rerender();
+    };
+    const previous = this.textComponent;
+    this.textComponent = this.addChild(new Component());
+    try {
+      const before = getEpochTimeMillis();
+      await this.show(this.query, el, this.textComponent, onToggle);
+      const after = getEpochTimeMillis();
+      console.debug("Rendering took " + (after - before) + " ms");
+    } catch (e) {
+      console.error(e);
+      el.textContent = "WTC: an error occurred: " + e;
+    } finally {
+      if (previous) this.removeChild(previous);
+    }
+  }
+
+  /**
+   * Renders the block again, keeping the scroll position and which <details> are open.
+   * Renders run one at a time so that an older one never replaces a newer one.
+   */
+  rerender(): Promise<void> {
+    const rendering = this.rendering.then(async () => {
+      // Render into a detached element so that the block never collapses while rendering.
+      const newEl = document.createElement("div");
+      await this.render(newEl);
+      replaceChildrenKeepingState(this.containerEl, newEl);
+    });
+    this.rendering = rendering.catch(console.error);
+    return rendering;
+  }
+}
+
+/**
+ * Moves the children of newEl into containerEl, keeping the scroll position and which <details> are open.
+ */
+function replaceChildrenKeepingState(containerEl: HTMLElement, newEl: HTMLElement) {
+  const openStates = new Map<string, boolean>();
+  containerEl.querySelectorAll(`details[${ATTR_DETAILS_KEY}]`).forEach(e => {
+    if (e instanceof HTMLDetailsElement) {
+      openStates.set(e.getAttribute(ATTR_DETAILS_KEY)!, e.open);
+    }
+  });
+  newEl.querySelectorAll(`details[${ATTR_DETAILS_KEY}]`).forEach(e => {
+    const open = openStates.get(e.getAttribute(ATTR_DETAILS_KEY)!);
+    if (e instanceof HTMLDetailsElement && open !== undefined) {
+      e.open = open;
+    }
+  });
+
+  const scrollEl = findScrollParent(containerEl);
+  const scrollTop = scrollEl?.scrollTop;
+  containerEl.replaceChildren(...Array.from(newEl.childNodes));
+  if (scrollEl && scrollTop !== undefined) {
+    scrollEl.scrollTop = scrollTop;
+  }
+}
+
+/**
+ * A sidebar view showing the tasks of one week under the folders in the settings.
+ */
+class WeeklyTasksView extends ItemView {
+  private readonly plugin: WTCPlugin;
+  private week: Week = Week.fromYMD(YMD.today());
+  private tasksEl: HTMLElement;
+  // Owns what is rendered from task texts, replaced on every render
+  private textComponent: Component | undefined = undefined;
+  // The last render, which the next one waits for
+  private rendering: Promise<void> = Promise.resolve();
+  readonly requestRerender = debounce(() => this.rerender(), RERENDER_DELAY_MILLIS, true);
+
+  constructor(leaf: WorkspaceLeaf, plugin: WTCPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType(): string {
+    return VIEW_TYPE_WEEKLY_TASKS;
+  }
+
+  getDisplayText(): string {
+    return "Weekly Tasks";
+  }
+
+  getIcon(): string {
+    return "calendar-days";
+  }
+
+  async onOpen() {
+    const container = this.containerEl.children[1] as HTMLElement;
+    container.empty();
+    const nav = container.createDiv();
+    const addButton = (text: string, onClick: () => void) => {
+      const button = nav.createEl("button", {text});
+      button.style.marginRight = "4px";
+      button.addEventListener("click", onClick);
+    };
+    addButton("<", () => this.showWeek(Week.fromYMD(this.week.range.from.plusDays(-7))));
+    addButton("This week", () => this.showWeek(Week.fromYMD(YMD.today())));
+    addButton(">", () => this.showWeek(Week.fromYMD(this.week.range.from.plusDays(7))));
+    const datePicker = nav.createEl("input", {type: "date"});
+    datePicker.addEventListener("change", () => {
+      const match = datePicker.value.match(/^(\d+)-(\d+)-(\d+)$/);
+      if (!match) return;
+      const [year, month, day] = [match[1], match[2], match[3]].map(v => Number.parseInt(v));
+      this.showWeek(Week.fromYMD(new YMD(year, month, day)));
+    });
+    this.tasksEl = container.createDiv();
+    await this.rerender();
+  }
+
+  async onClose() {
+    this.requestRerender.cancel();
+  }
+
+  private async showWeek(week: Week) {
+    this.week = week;
+    await this.rerender();
+  }
+
+  watches(path: string): boolean {
+    return this.plugin.settings.viewRootPaths.some(rootPath => path.startsWith(rootPath + "/"));
+  }
+
+  /**
+   * Renders the tasks of the week. Renders run one at a time so that an older one never replaces a newer one.
+   */
+  rerender(): Promise<void> {
+    const rendering = this.rendering.then(() => this.render());
+    this.rendering = rendering.catch(console.error);
+    return rendering;
+  }
+
+  private async render() {
+    const newEl = document.createElement("div");
+    const range = this.week.range;
+    newEl.createEl("h4").append(createTextSpan(range.doesInclude(YMD.today()), getDateRangeLabel(range), "(THIS WEEK)"));
+    const rootPaths = this.plugin.settings.viewRootPaths;
+    if (rootPaths.length === 0) {
+      newEl.createEl("p").textContent = "WTC: set the folders of the view in the settings";
+    } else {
+      const query: Query = {
+        from: rootPaths,
+        exclude: [],
+        between: range,
+        status: undefined,
+        tags: [],
+        texts: [],
+        limitWeeks: undefined,
+        period: undefined,
+      };
+      const onToggle: TaskToggleHandler = async (task, node, checked) => {
+        if (!await this.plugin.toggleTask(task, node, checked)) return;
+        await this.rerender();
+      };
+      const previous = this.textComponent;
+      this.textComponent = this.addChild(new Component());
+      try {
+        await this.plugin.showTasks(query, newEl.createDiv(), this.textComponent, onToggle, false);
+      } catch (e) {
+        console.error(e);
+        newEl.createEl("p").textContent = "WTC: an error occurred: " + e;
+      } finally {
+        if (previous) this.removeChild(previous);
+      }
+    }
+    replaceChildrenKeepingState(this.tasksEl, newEl);
+  }
+}
+
+class WTCSettingTab extends PluginSettingTab {
+  plugin: WTCPlugin;
+
+  constructor(app: App, plugin: WTCPlugin) {
+    super(app, plugin);
+    this.plugin = plugin;
+  }
+
+  display() {
+    const {containerEl} = this;
+    containerEl.empty();
+
+    this.addTextSetting("Date format", "moment.js format of date headers (e.g. YYYY/MM/DD)",
+      "dateFormat", value => value);
+    this.addTextSetting("Month format", "moment.js format of month headers (e.g. YYYY/MM)",
+      "monthFormat", value => value);
+    this.addTextSetting("Date range delimiter", "Delimiter between the first and the last date of a week header",
+      "dateRangeDelimiter", value => value);
+    new Setting(containerEl)
+      .setName("First day of week")
+      .addDropdown(component => {
+        ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"].forEach((value, index) => {
+          component.addOption(index.toString(), value);
+        });
+        component.setValue(this.plugin.settings.weekBeginDay.toString())
+          .onChange(async value => {
+            this.plugin.settings.weekBeginDay = Number.parseInt(value);
+            await this.plugin.saveSettings();
+          });
+      });
+    this.addTextSetting("Days until tasks get old", "Tasks older than this are folded into \"Old Tasks\"",
+      "oldTaskDays", parseNumberSetting);
+    this.addTextSetting("Collection interval (ms)", "Tasks are not collected again within this interval",
+      "debounceMillis", parseNumberSetting);
+    this.addTextSetting("Short name length", "Number of characters of the source names shown next to dates",
+      "shortNameLength", parseNumberSetting);
+    new Setting(containerEl)
+      .setName("Folders of the weekly tasks view")
+      .setDesc("One folder per line")
+      .addTextArea(component => {
+        component.setValue(this.plugin.settings.viewRootPaths.join("\n"))
+          .onChange(async value => {
+            this.plugin.settings.viewRootPaths = value.split("\n")
+              .map(path => path.trim())
+              .filter(path => path !== "");
+            await this.plugin.saveSettings();
+          });
+      });
+    new Setting(containerEl)
+      .setName("Open the weekly tasks view on startup")
+      .addToggle(component => {
+        component.setValue(this.plugin.settings.openViewOnStartup)
+          .onChange(async value => {
+            this.plugin.settings.openViewOnStartup = value;
+            await this.plugin.saveSettings();
+          });
+      });
+    new Setting(containerEl)
+      .setName("Folders of daily notes")
+      .setDesc("One folder per line. Notes named by date in these folders are collected as the tasks of that date")
+      .addTextArea(component => {
+        component.setValue(this.plugin.settings.dailyNoteFolders.join("\n"))
+          .onChange(async value => {
+            this.plugin.settings.dailyNoteFolders = value.split("\n")
+              .map(path => path.trim().replace(/\/+$/, ""))
+              .filter(path => path !== "");
+            await this.plugin.saveSettings();
+          });
+      });
+    this.addTextSetting("Daily note format", "The moment.js format of the file names of daily notes",
+      "dailyNoteFormat", value => value);
+    const statusDesc = "One status per line, e.g. \"[/] in-progress open\". " +
+      `The state is one of ${settings.CHECKBOX_STATES.join(", ")}; open tasks are shown as undone`;
+    const statusSetting = new Setting(containerEl)
+      .setName("Checkbox statuses")
+      .setDesc(statusDesc);
+    statusSetting.addTextArea(component => {
+      component.setValue(settings.formatCheckboxStatuses(this.plugin.settings.checkboxStatuses))
+        .onChange(async value => {
+          const statuses = settings.parseCheckboxStatuses(value);
+          if (typeof statuses === "string") {
+            statusSetting.setDesc(statuses);
+            statusSetting.descEl.addClass("mod-warning");
+            return;
+          }
+          statusSetting.setDesc(statusDesc);
+          statusSetting.descEl.removeClass("mod-warning");
+          this.plugin.settings.checkboxStatuses = statuses;
+          await this.plugin.saveSettings();
+        });
+    });
+  }
+
+  /**
+   * Adds a text setting which is saved only when the new value is valid.
+   */
+  private addTextSetting<K extends keyof WTCSettings>(
+    name: string, desc: string, key: K, parse: (value: string) => WTCSettings[K]) {
+    const setting = new Setting(this.containerEl)
+      .setName(name)
+      .setDesc(desc);
+    setting.addText(component => {
+      component.setValue(String(this.plugin.settings[key]))
+        .onChange(async value => {
+          const candidate: WTCSettings = Object.assign({}, this.plugin.settings);
+          candidate[key] = parse(value);
+          // A new value may also make another setting invalid (e.g. the delimiter for a new date format).
+          const errors = settings.validateSettings(candidate);
+          const error = errors[key] ?? Object.values(errors)[0];
+          if (error) {
+            setting.setDesc(error);
+            setting.descEl.addClass("mod-warning");
+            return;
+          }
+          setting.setDesc(desc);
+          setting.descEl.removeClass("mod-warning");
+          this.plugin.settings = candidate;
+          await this.plugin.saveSettings();
+        });
+    });
   }
 }
 
@@ -354,7 +1636,7 @@ class TemplateInsertionModal extends Modal {
     new Setting(contentEl)
       .setName("From")
       .addMomentFormat(component => {
-        component.setDefaultFormat(DATE_FORMAT)
+        component.setDefaultFormat(getDateFormat())
           .onChange(value => {
             this.from = value;
           })
@@ -362,7 +1644,7 @@ class TemplateInsertionModal extends Modal {
     new Setting(contentEl)
       .setName("To")
       .addMomentFormat(component => {
-        component.setDefaultFormat(DATE_FORMAT)
+        component.setDefaultFormat(getDateFormat())
           .onChange(value => {
             this.to = value;
           })
@@ -396,6 +1678,171 @@ class TemplateInsertionModal extends Modal {
   }
 }
 
+class ICalImportModal extends Modal {
+  icsPath: string | undefined = undefined;
+  from: string | undefined = undefined;
+  to: string | undefined = undefined;
+
+  constructor(app: App) {
+    super(app);
+  }
+
+  onOpen() {
+    const {contentEl} = this;
+    new Setting(contentEl)
+      .setName("iCalendar file")
+      .addDropdown(component => {
+        const icsFiles = this.app.vault.getFiles().filter(file => file.extension === "ics");
+        icsFiles.forEach(file => component.addOption(file.path, file.path));
+        this.icsPath = icsFiles[0]?.path;
+        component.onChange(value => {
+          this.icsPath = value;
+        })
+      })
+    new Setting(contentEl)
+      .setName("From")
+      .addMomentFormat(component => {
+        component.setDefaultFormat(getDateFormat())
+          .onChange(value => {
+            this.from = value;
+          })
+      })
+    new Setting(contentEl)
+      .setName("To")
+      .addMomentFormat(component => {
+        component.setDefaultFormat(getDateFormat())
+          .onChange(value => {
+            this.to = value;
+          })
+      })
+    new Setting(contentEl)
+      .addButton(component => {
+        component.setButtonText("OK")
+          .onClick(async () => {
+            this.close();
+            await this.importEvents();
+          });
+      })
+  }
+
+  async importEvents() {
+    const from = YMD.fromString(this.from!);
+    const to = YMD.fromString(this.to!);
+    const icsFile = this.icsPath !== undefined ? this.app.vault.getFileByPath(this.icsPath) : null;
+    if (!from || !to || icsFile === null) {
+      new Notice("Invalid format");
+      return;
+    }
+    const events = ical.parseICalendar(await this.app.vault.cachedRead(icsFile));
+    const activeFile = this.app.workspace.getActiveFile();
+    if (activeFile === null) return;
+    let isChanged = false;
+    await this.app.vault.process(activeFile, data => {
+      const lines = data.split("\n");
+      const updated = ical.importEvents(lines, events, from, to);
+      isChanged = updated.length !== lines.length;
+      return updated.join("\n");
+    });
+    new Notice(isChanged ? "WTC: imported events" : "WTC: no new events to import");
+  }
+
+  onClose() {
+    const {contentEl} = this;
+    contentEl.empty();
+  }
+}
+
+class RolloverModal extends Modal {
+  private readonly movesByPath: Map<string, RolloverMove[]>;
+  private readonly onConfirm: () => Promise<void>;
+
+  constructor(app: App, movesByPath: Map<string, RolloverMove[]>, onConfirm: () => Promise<void>) {
+    super(app);
+    this.movesByPath = movesByPath;
+    this.onConfirm = onConfirm;
+  }
+
+  onOpen() {
+    const {contentEl} = this;
+    contentEl.createEl("h3").textContent = "Roll over undone tasks";
+    this.movesByPath.forEach(moves => {
+      contentEl.createEl("h4").textContent = moves[0].task.task.srcFile.displayName;
+      const ul = contentEl.createEl("ul");
+      for (const move of moves) {
+        const li = ul.createEl("li");
+        li.createSpan().textContent = `${move.task.temporal} → ${move.target}`;
+        li.createEl("pre").textContent = move.task.task.generateMarkdown(0);
+      }
+    });
+    new Setting(contentEl)
+      .addButton(component => {
+        component.setButtonText("Move")
+          .setCta()
+          .onClick(async () => {
+            this.close();
+            await this.onConfirm();
+          });
+      })
+      .addButton(component => {
+        component.setButtonText("Cancel")
+          .onClick(() => this.close());
+      });
+  }
+
+  onClose() {
+    const {contentEl} = this;
+    contentEl.empty();
+  }
+}
+
+class ICalExportModal extends Modal {
+  private readonly plugin: WTCPlugin;
+  rootPaths: string = "";
+  outputPath: string = "weekly-tasks.ics";
+
+  constructor(app: App, plugin: WTCPlugin) {
+    super(app);
+    this.plugin = plugin;
+  }
+
+  onOpen() {
+    const {contentEl} = this;
+    new Setting(contentEl)
+      .setName("Root folders")
+      .setDesc("One folder per line")
+      .addTextArea(component => {
+        component.onChange(value => this.rootPaths = value);
+      })
+    new Setting(contentEl)
+      .setName("Output file")
+      .addText(component => {
+        component.setValue(this.outputPath)
+          .onChange(value => this.outputPath = value.trim());
+      })
+    new Setting(contentEl)
+      .addButton(component => {
+        component.setButtonText("Export")
+          .setCta()
+          .onClick(async () => {
+            const rootPaths = this.rootPaths.split("\n")
+              .map(value => value.trim())
+              .filter(value => value !== "");
+            if (rootPaths.length === 0 || !this.outputPath.endsWith(".ics")) {
+              new Notice("Invalid format");
+              return;
+            }
+            this.close();
+            await this.plugin.exportICalendar(rootPaths, this.outputPath);
+          });
+      })
+  }
+
+  onClose() {
+    const {contentEl} = this;
+    contentEl.empty();
+  }
+}
+
 function noticeIfUndefined(obj: any | undefined, msg: string) {
   if (obj) return;
   new Notice(msg);
@@ -416,7 +1863,7 @@ class RegularTaskInsertionModal extends Modal {
     new Setting(contentEl)
       .setName("From")
       .addMomentFormat(component => {
-        component.setDefaultFormat(DATE_FORMAT)
+        component.setDefaultFormat(getDateFormat())
           .onChange(value => {
             this.from = YMD.fromString(value);
             noticeIfUndefined(this.from, "invalid: " + value);
@@ -425,7 +1872,7 @@ class RegularTaskInsertionModal extends Modal {
     new Setting(contentEl)
       .setName("To")
       .addMomentFormat(component => {
-        component.setDefaultFormat(DATE_FORMAT)
+        component.setDefaultFormat(getDateFormat())
           .onChange(value => {
             this.to = YMD.fromString(value);
             noticeIfUndefined(this.to, "invalid: " + value);
@@ -437,6 +1884,7 @@ class RegularTaskInsertionModal extends Modal {
         ["日", "月", "火", "水", "木", "金", "土"].forEach((value, index) => {
           component.addOption(index.toString(), value);
         });
+        this.day = 0;
         component.onChange(value => {
           this.day = Number.parseInt(value);
         })
@@ -457,14 +1905,12 @@ class RegularTaskInsertionModal extends Modal {
   }
 
   async insertText() {
-    let text = "\n\n";
-    for (const d of datetime.genDates(this.from!, this.to!)) {
-      if (d.toDate().getDay() !== this.day!) continue;
-      text += "- " + d.toString() + "\n";
-      this.taskMD.split("\n").forEach(value => {
-        text += "    " + value + "\n";
-      })
+    if (!this.from || !this.to || this.day === undefined) {
+      new Notice("Invalid format");
+      return;
     }
+    // A recurrence rule is expanded into each day when tasks are collected.
+    const text = "\n\n" + recurrence.generateRuleMarkdown([this.day], this.from, this.to, this.taskMD);
     const activeFile = this.app.workspace.getActiveFile();
     if (activeFile === null) return;
     await this.app.vault.append(activeFile, text);
@@ -0,0 +1,95 @@
+import test from "node:test";
+import * as a from "assert";
+import * as md from "./md.js";
+import {SourceFile} from "./md.js";
+
+const SRC = new SourceFile("URI", "SRC", "SRC.md");
+
+test("setCheckBoxOfLine", () => {
+  a.strictEqual(md.setCheckBoxOfLine("- [ ] hello", true), "- [x] hello");
+  a.strictEqual(md.setCheckBoxOfLine("  - [x] hello [ ]", false), "  - [ ] hello [ ]");
+  a.strictEqual(md.setCheckBoxOfLine("\t-  [X] hello", false), "\t-  [ ] hello");
+  a.strictEqual(md.setCheckBoxOfLine("- hello", true), undefined);
+});
+
+test("parseContentToListHunks keeps line numbers", () => {
+  const content = `# title
+- 2025/04/28
+  - [ ] task
+
+- 2025/04/29
+`;
+  const hunks = md.parseContentToListHunks(SRC, content);
+  a.deepStrictEqual(hunks[0].lines.map(v => v.lineNumber), [1, 2]);
+  a.deepStrictEqual(hunks[1].lines.map(v => v.lineNumber), [4]);
+
+  const tree = md.parseListHunkToTree(SRC, hunks[0].lines);
+  const task = tree.children[0].children[0];
+  a.strictEqual(task.line?.lineNumber, 2);
+  a.strictEqual(task.line?.rawText, "  - [ ] task");
+  a.deepStrictEqual(tree.children[0].getLineRange(), {from: 1, to: 2});
+  a.deepStrictEqual(task.getLineRange(), {from: 2, to: 2});
+  a.strictEqual(tree.getLineRange(), undefined);
+});
+
+test("MDListLine.fromLine accepts all list markers", () => {
+  const markers = ["- a", "* a", "+ a", "1. a", "12) a"].map(text => md.MDListLine.fromLine(SRC, text, 0)?.marker);
+  a.deepStrictEqual(markers, ["-", "*", "+", "1.", "12)"]);
+  a.strictEqual(md.MDListLine.fromLine(SRC, "1.a", 0), undefined);
+  a.strictEqual(md.setCheckBoxOfLine("\t3. [ ] task", true), "\t3. [x] task");
+});
+
+test("parseListHunkToTree handles tabs and keeps markers", () => {
+  const content = `* 2025/04/28
+\t1. [ ] first
+\t\t+ child
+    2. [ ] second`;
+  const hunks = md.parseContentToListHunks(SRC, content);
+  const tree = md.parseListHunkToTree(SRC, hunks[0].lines);
+  const header = tree.children[0];
+  a.deepStrictEqual(header.children.map(node => node.text), ["first", "second"]);
+  a.deepStrictEqual(header.children[0].children.map(node => node.text), ["child"]);
+  a.strictEqual(header.generateMarkdown(0), `* 2025/04/28
+  1. [ ] first
+    + child
+  2. [ ] second
+`);
+});
+
+test("parseTaskMetadata", () => {
+  const high = md.parseTaskMetadata("write report ⏫ 📅 2025-03-14");
+  a.strictEqual(high.priority, "high");
+  a.strictEqual(high.due?.toString(), "2025/03/14");
+  a.strictEqual(high.displayText, "write report");
+  a.strictEqual(md.parseTaskMetadata("(B) call").priority, "medium");
+  a.strictEqual(md.parseTaskMetadata("(B) call").displayText, "call");
+  a.strictEqual(md.parseTaskMetadata("urgent !!").priority, "high");
+  a.strictEqual(md.parseTaskMetadata("hey!! (X)").priority, "none");
+  a.strictEqual(md.parseTaskMetadata("later 🔽").priority, "low");
+  const invalid = md.parseTaskMetadata("bogus 📅 2025-13-45 ⏳ 2025-02-30");
+  a.strictEqual(invalid.due, undefined);
+  a.strictEqual(invalid.scheduled, undefined);
+  a.strictEqual(invalid.displayText, "bogus 📅 2025-13-45 ⏳ 2025-02-30");
+});
+
+test("isAllChecked uses the checkbox statuses", () => {
+  const isAllChecked = (content: string) => {
+    const hunk = md.parseContentToListHunks(SRC, content)[0];
+    return md.parseListHunkToTree(SRC, hunk.lines).children[0].isAllChecked();
+  };
+  a.strictEqual(isAllChecked("- [x] done"), true);
+  a.strictEqual(isAllChecked("- [-] cancelled"), true);
+  a.strictEqual(isAllChecked("- [/] in progress"), false);
+  a.strictEqual(isAllChecked("- [>] deferred"), false);
+  a.strictEqual(isAllChecked("- [?] unknown"), true);
+  a.strictEqual(isAllChecked("- [x] done\n  - [/] in progress"), false);
+  a.strictEqual(md.getCheckboxStatus("/").state, "in-progress");
+});
+
+test("parseSourceMeta", () => {
+  a.deepStrictEqual(md.parseSourceMeta(undefined), {});
+  a.deepStrictEqual(md.parseSourceMeta({"wt-label": " PA ", "wt-color": "red", "wt-group": "work", "wt-hidden": true}),
+    {label: "PA", color: "red", group: "work", hidden: true});
+  a.deepStrictEqual(md.parseSourceMeta({"wt-label": 3, "wt-color": "", "wt-hidden": "yes"}),
+    {label: undefined, color: undefined, group: undefined});
+});
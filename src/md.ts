@@ -1,6 +1,93 @@
+import moment from "moment/moment.js";
+import {YMD} from "./datetime.js";
+import {CheckboxState, CheckboxStatus, getSettings} from "./settings.js";
+
 // TODO: MDListLine でこのパースも終わらせる
 const REGEX_CHECKBOX = /^\[(.)] (.+)$/
 const CHECKBOX_UNDONE = " "
+const CHECKBOX_DONE = "x"
+const REGEX_LINE_CHECKBOX = /^(\s*(?:[-*+]|\d{1,9}[.)])\s+)\[(.)](.*)$/
+
+// todo and done are shown by the checkbox itself.
+const CHECKBOX_STATE_ICONS: Partial<Record<CheckboxState, string>> = {
+  "in-progress": "◐",
+  "cancelled": "✕",
+  "deferred": "↷",
+};
+
+/**
+ * 設定の表からチェックボックスの状態を引く。表に無い文字は完了として扱う
+ */
+export function getCheckboxStatus(checkText: string): CheckboxStatus {
+  return getSettings().checkboxStatuses.find(status => status.symbol === checkText)
+    ?? (checkText === CHECKBOX_UNDONE
+      ? {symbol: checkText, state: "todo", isOpen: true}
+      : {symbol: checkText, state: "done", isOpen: false});
+}
+
+/**
+ * タスクの優先度。PRIORITIES の前にあるものほど優先される
+ */
+export type Priority = "highest" | "high" | "medium" | "none" | "low" | "lowest";
+
+export const PRIORITIES: Priority[] = ["highest", "high", "medium", "none", "low", "lowest"];
+
+// Tasks plugin style
+const PRIORITY_EMOJIS: [string, Priority][] = [["🔺", "highest"], ["⏫", "high"], ["🔼", "medium"], ["🔽", "low"], ["⏬", "lowest"]];
+// todo.txt style
+const REGEX_PRIORITY_LETTER = /(^|\s)\(([A-C])\)(?=\s|$)/;
+const PRIORITY_LETTERS: Record<string, Priority> = {A: "high", B: "medium", C: "low"};
+const REGEX_PRIORITY_EXCLAMATIONS = /(^|\s)!!+(?=\s|$)/;
+const REGEX_DUE = /📅\s*(\d{4}-\d{2}-\d{2})/;
+const REGEX_SCHEDULED = /⏳\s*(\d{4}-\d{2}-\d{2})/;
+const REGEX_START = /🛫\s*(\d{4}-\d{2}-\d{2})/;
+
+/**
+ * タスクの文面に書かれた優先度と期日
+ */
+export interface TaskMetadata {
+  priority: Priority;
+  due: YMD | undefined;
+  scheduled: YMD | undefined;
+  start: YMD | undefined;
+  /**
+   * 優先度と日付の記号を除いた文面
+   */
+  displayText: string;
+}
+
+export function parseTaskMetadata(text: string): TaskMetadata {
+  let priority: Priority = "none";
+  let displayText = text;
+  for (const [emoji, emojiPriority] of PRIORITY_EMOJIS) {
+    if (displayText.includes(emoji)) {
+      if (priority === "none") priority = emojiPriority;
+      displayText = displayText.split(emoji).join("");
+    }
+  }
+  const letterMatch = displayText.match(REGEX_PRIORITY_LETTER);
+  if (letterMatch) {
+    if (priority === "none") priority = PRIORITY_LETTERS[letterMatch[2]];
+    displayText = displayText.replace(REGEX_PRIORITY_LETTER, "$1");
+  }
+  if (REGEX_PRIORITY_EXCLAMATIONS.test(displayText)) {
+    if (priority === "none") priority = "high";
+    displayText = displayText.replace(REGEX_PRIORITY_EXCLAMATIONS, "$1");
+  }
+  const parseDate = (regex: RegExp): YMD | undefined => {
+    const match = displayText.match(regex);
+    if (!match) return undefined;
+    // Invalid dates such as 2025-13-45 are left in the text.
+    const m = moment(match[1], "YYYY-MM-DD", true);
+    if (!m.isValid()) return undefined;
+    displayText = displayText.replace(regex, "");
+    return YMD.fromMoment(m);
+  };
+  const due = parseDate(REGEX_DUE);
+  const scheduled = parseDate(REGEX_SCHEDULED);
+  const start = parseDate(REGEX_START);
+  return {priority, due, scheduled, start, displayText: displayText.replace(/\s+/g, " ").trim()};
+}
 
 export class MDListHunk {
   lines: MDListLine[]
@@ -10,45 +97,116 @@ export class MDListHunk {
   }
 }
 
-const REGEX_MD_LIST_WITH_CONTENT = /^(\s*)-\s+(.+)$/;
-const REGEX_MD_LIST_EMPTY = /^(\s*)-$/;
+// Bullets ("-", "*", "+") and ordered list markers ("1.", "1)") of CommonMark
+const REGEX_MD_LIST_WITH_CONTENT = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.+)$/;
+const REGEX_MD_LIST_EMPTY = /^(\s*)([-*+]|\d{1,9}[.)])$/;
+const TAB_WIDTH = 4;
+
+/**
+ * タブを次のタブ位置までの空白として数えたインデントの幅
+ */
+export function getIndentWidth(indent: string): number {
+  let width = 0;
+  for (const char of indent) {
+    width = char === "\t" ? width + TAB_WIDTH - width % TAB_WIDTH : width + 1;
+  }
+  return width;
+}
 
 export class MDListLine {
   readonly srcFile: SourceFile;
   readonly rawText: string;
   readonly indentCharLen: number;
+  /**
+   * タブを展開したインデントの幅。インデントの深さはこれで決める
+   */
+  readonly indentWidth: number;
   readonly content: string;
+  /**
+   * ファイル内の行番号 (0始まり)
+   */
+  readonly lineNumber: number;
+  /**
+   * リストの記号 ("-", "*", "+", "1." など)。書き戻すときにそのまま使う
+   */
+  readonly marker: string;
 
-  constructor(srcFile: SourceFile, rawText: string, indentCharLen: number, content: string) {
+  constructor(srcFile: SourceFile, rawText: string, indentCharLen: number, content: string, lineNumber: number,
+              marker: string = "-") {
     this.srcFile = srcFile;
     this.rawText = rawText;
     this.indentCharLen = indentCharLen;
+    this.indentWidth = getIndentWidth(rawText.substring(0, indentCharLen));
     this.content = content;
+    this.lineNumber = lineNumber;
+    this.marker = marker;
   }
 
   // TODO: '-' が含まれていなければ即 undefined を返すことで多少パフォーマンスが良くなるかもしれない。
-  static fromLine(srcFile: SourceFile, text: string): MDListLine | undefined {
+  static fromLine(srcFile: SourceFile, text: string, lineNumber: number): MDListLine | undefined {
     const matchWithContent = text.match(REGEX_MD_LIST_WITH_CONTENT);
     if (matchWithContent) {
-      return new MDListLine(srcFile, text, matchWithContent[1].length, matchWithContent[2]);
+      return new MDListLine(srcFile, text, matchWithContent[1].length, matchWithContent[3], lineNumber,
+        matchWithContent[2]);
     }
     const matchEmpty = text.match(REGEX_MD_LIST_EMPTY);
     if (matchEmpty) {
-      return new MDListLine(srcFile, text, matchEmpty[1].length, "");
+      return new MDListLine(srcFile, text, matchEmpty[1].length, "", lineNumber, matchEmpty[2]);
     }
     return undefined;
   }
 
   getIndentLevel(step: number) {
-    if (this.indentCharLen % step !== 0) return undefined;
-    return this.indentCharLen / step;
+    if (this.indentWidth % step !== 0) return undefined;
+    return this.indentWidth / step;
   }
 
   toNode() {
-    return new MDListNode(undefined, this.srcFile, this.content);
+    return new MDListNode(undefined, this.srcFile, this.content, this);
   }
 }
 
+/**
+ * ノートのフロントマター (wt-label, wt-color, wt-group, wt-hidden) で指定された、ソースの表示の仕方
+ */
+export interface SourceMeta {
+  /**
+   * 短縮名の代わりに表示する名前
+   */
+  label?: string;
+  /**
+   * バッジの色 (CSSの色)
+   */
+  color?: string;
+  /**
+   * 同じグループのソースはまとめて表示する
+   */
+  group?: string;
+  /**
+   * trueなら集約したビューに表示しない
+   */
+  hidden?: boolean;
+}
+
+/**
+ * フロントマターからソースの表示の仕方を読む。型の合わない値は無視する
+ */
+export function parseSourceMeta(frontmatter: Record<string, unknown> | undefined): SourceMeta {
+  const meta: SourceMeta = {};
+  if (!frontmatter) return meta;
+  const getString = (key: string): string | undefined => {
+    const value = frontmatter[key];
+    return typeof value === "string" && value.trim() !== "" ? value.trim() : undefined;
+  };
+  meta.label = getString("wt-label");
+  meta.color = getString("wt-color");
+  meta.group = getString("wt-group");
+  if (typeof frontmatter["wt-hidden"] === "boolean") {
+    meta.hidden = frontmatter["wt-hidden"];
+  }
+  return meta;
+}
+
 export class SourceFile {
   /**
    * ファイルを開くためのURI
@@ -58,21 +216,38 @@ export class SourceFile {
    * 表示名。収集するパスからの相対パスを想定
    */
   readonly displayName: string;
+  /**
+   * Vault内のパス。書き戻しに使う
+   */
+  readonly path: string;
+  readonly meta: SourceMeta;
 
-  constructor(openURI: string, displayName: string) {
+  constructor(openURI: string, displayName: string, path: string, meta: SourceMeta = {}) {
     this.openURI = openURI;
     this.displayName = displayName;
+    this.path = path;
+    this.meta = meta;
   }
 
   equals(another: SourceFile) {
     return another.openURI === this.openURI && another.displayName === this.displayName;
   }
 
-  toAnchor(content: string): HTMLAnchorElement {
+  /**
+   * @param onOpen undefinedならURIでファイルの先頭を開く
+   * @param lineRange 開いたときに表示する行
+   */
+  toAnchor(content: string, onOpen?: SourceOpenHandler, lineRange?: LineRange): HTMLAnchorElement {
     const a = document.createElement("a");
     a.href = this.openURI;
     a.textContent = content;
     a.className = "obsidian-weekly-tasks-plain-anchor";
+    if (onOpen) {
+      a.addEventListener("click", ev => {
+        ev.preventDefault();
+        onOpen(this, lineRange, ev);
+      });
+    }
     return a;
   }
 }
@@ -84,11 +259,16 @@ export class MDListNode {
   text: string;
   checkText: string | undefined = undefined;
   children: MDListNode[] = [];
+  /**
+   * パース元の行。書き戻しのときに行の位置と内容を確かめるのに使う
+   */
+  readonly line: MDListLine | undefined;
 
-  constructor(parent: MDListNode | undefined, srcFile: SourceFile, text: string) {
+  constructor(parent: MDListNode | undefined, srcFile: SourceFile, text: string, line?: MDListLine) {
     this.parent = parent;
     this.srcFile = srcFile;
     this.text = text;
+    this.line = line;
 
     const checkboxInfo = parseCheckBox(text);
     if (checkboxInfo) {
@@ -98,22 +278,66 @@ export class MDListNode {
     }
   }
 
+  /**
+   * 文面に書かれた優先度と日付
+   */
+  get metadata(): TaskMetadata {
+    return parseTaskMetadata(this.text);
+  }
+
   get rawText(): string {
     return this.checkText
       ? `[${this.checkText}] ${this.text}`
       : this.text;
   }
 
-  toHTMLElement(): HTMLElement {
+  /**
+   * @param onToggle チェックボックスがクリックされたときに呼ばれる。undefinedならチェックボックスは無効になる
+   * @param renderText undefinedなら文面をそのまま表示する
+   * @param onOpen 文面 (リンク以外) がクリックされたときに、このノードの行を開くのに使う
+   */
+  toHTMLElement(onToggle?: CheckBoxToggleHandler, renderText?: TextRenderer, onOpen?: SourceOpenHandler): HTMLElement {
     const body = document.createElement("span");
-    if (this.checkText) {
+    const status = this.checkText !== undefined ? getCheckboxStatus(this.checkText) : undefined;
+    if (status) {
       const cb = body.createEl("input", { type: "checkbox" });
       cb.style.verticalAlign = "middle";
-      cb.setAttribute("data-task", this.checkText);
-      cb.disabled = true;
+      cb.setAttribute("data-task", status.symbol);
+      cb.checked = !status.isOpen;
+      if (onToggle && this.line) {
+        cb.addEventListener("click", (ev) => {
+          // 書き戻しが成功するまでは見た目を変えない
+          ev.preventDefault();
+          onToggle(this, status.isOpen);
+        });
+      } else {
+        cb.disabled = true;
+      }
+      const icon = CHECKBOX_STATE_ICONS[status.state];
+      if (icon) {
+        const iconEl = body.createEl("span");
+        iconEl.textContent = icon;
+        iconEl.title = status.state;
+        iconEl.style.marginRight = "0.25em";
+      }
     }
     const el = body.createEl("span");
-    el.textContent = this.text;
+    if (status?.state === "cancelled") {
+      el.style.textDecoration = "line-through";
+    }
+    const displayText = this.metadata.displayText;
+    if (renderText) {
+      renderText(displayText, el, this.srcFile);
+    } else {
+      el.textContent = displayText;
+    }
+    if (onOpen) {
+      el.style.cursor = "pointer";
+      el.addEventListener("click", ev => {
+        if (ev.target instanceof Element && ev.target.closest("a")) return;
+        onOpen(this.srcFile, this.getLineRange(), ev);
+      });
+    }
     return body;
   }
 
@@ -129,7 +353,7 @@ export class MDListNode {
   }
 
   /**
-   * If any of child nodes has unchecked checkbox, returns false.
+   * If any of child nodes has an open status (see getCheckboxStatus), returns false.
    * Otherwise, returns the state of the top node.
    * If the top node doesn't have checkbox, it is treated as unchecked.
    */
@@ -141,18 +365,56 @@ export class MDListNode {
       }
       return node.checkText === undefined
         ? undefined
-        : node.checkText === CHECKBOX_UNDONE;
+        : getCheckboxStatus(node.checkText).isOpen;
     }
     const hasUnchecked = hasUncheckedRecurse(this);
     if (hasUnchecked !== undefined && hasUnchecked) {
       return false;
     } else {
-      return this.checkText !== undefined && this.checkText !== CHECKBOX_UNDONE;
+      return this.checkText !== undefined && !getCheckboxStatus(this.checkText).isOpen;
+    }
+  }
+
+  /**
+   * @return 子孫も含めて、このノードが占める最後の行の行番号
+   */
+  getLastLineNumber(): number | undefined {
+    let last = this.line?.lineNumber;
+    for (const child of this.children) {
+      const childLast = child.getLastLineNumber();
+      if (childLast !== undefined && (last === undefined || last < childLast)) {
+        last = childLast;
+      }
+    }
+    return last;
+  }
+
+  /**
+   * @return 子孫も含めて、このノードが占める行の範囲。パース元の行が無ければundefined
+   */
+  getLineRange(): LineRange | undefined {
+    if (!this.line) return undefined;
+    return {from: this.line.lineNumber, to: this.getLastLineNumber()!};
+  }
+
+  /**
+   * 子孫も含めて、ソースファイルだけを差し替えたコピーを作る。
+   * コピーの親はこのノードの親のまま。
+   */
+  cloneWithSourceFile(srcFile: SourceFile): MDListNode {
+    const cloneRecursive = (node: MDListNode, parent: MDListNode | undefined): MDListNode => {
+      const cloned = new MDListNode(parent, srcFile, node.rawText, node.line);
+      cloned.children = node.children.map(child => cloneRecursive(child, cloned));
+      return cloned;
     }
+    return cloneRecursive(this, this.parent);
   }
 
-  generateMarkdown(initialIndentLevel: number): string {
-    const generator = new MarkdownGenerator();
+  /**
+   * @param indentUnit 一段分のインデント
+   */
+  generateMarkdown(initialIndentLevel: number, indentUnit: string = "  "): string {
+    const generator = new MarkdownGenerator(indentUnit);
     this.visit(generator, initialIndentLevel);
     return generator.getMarkdown();
   }
@@ -160,10 +422,37 @@ export class MDListNode {
 
 export class MDListRootNode extends MDListNode {
   constructor() {
-    super(undefined, new SourceFile("ROOT", "ROOT"), "ROOT");
+    super(undefined, new SourceFile("ROOT", "ROOT", "ROOT"), "ROOT");
   }
 }
 
+/**
+ * @param node クリックされたノード
+ * @param checked 新しくチェックされた状態にするならtrue
+ */
+export type CheckBoxToggleHandler = (node: MDListNode, checked: boolean) => void;
+
+/**
+ * タスクの文面をelに描画する
+ *
+ * @param srcFile リンクの解決に使う、文面のあるファイル
+ */
+export type TextRenderer = (text: string, el: HTMLElement, srcFile: SourceFile) => void;
+
+/**
+ * ファイル内の行の範囲 (0始まり、両端を含む)
+ */
+export interface LineRange {
+  from: number;
+  to: number;
+}
+
+/**
+ * @param lineRange 開いたときに表示する行。undefinedならファイルの先頭
+ * @param ev 修飾キーが押されていれば新しいペインで開く
+ */
+export type SourceOpenHandler = (srcFile: SourceFile, lineRange: LineRange | undefined, ev: MouseEvent) => void;
+
 export interface MDNodeVisitor<CtxType> {
   /**
    * @param node 現在のノード
@@ -184,17 +473,22 @@ export interface MDNodeVisitor<CtxType> {
 type IndentLevel = number;
 
 class MarkdownGenerator implements MDNodeVisitor<IndentLevel> {
+  private readonly indentUnit: string;
   private markdown: string = "";
 
+  constructor(indentUnit: string) {
+    this.indentUnit = indentUnit;
+  }
+
   getMarkdown() {
     return this.markdown;
   }
 
   enter(node: MDListNode, ctx: IndentLevel): () => IndentLevel {
     for (let i = 0; i < ctx; i++) {
-      this.markdown += "  ";
+      this.markdown += this.indentUnit;
     }
-    this.markdown += "- " + node.rawText + "\n";
+    this.markdown += (node.line?.marker ?? "-") + " " + node.rawText + "\n";
     return function () {
       return ctx + 1;
     };
@@ -209,8 +503,9 @@ class MarkdownGenerator implements MDNodeVisitor<IndentLevel> {
 export function parseContentToListHunks(srcFile: SourceFile, content: string): MDListHunk[] {
   const buffer: MDListLine[] = []
   const hunks: MDListHunk[] = [];
-  for (const line of content.split("\n")) {
-    const mdListLine = MDListLine.fromLine(srcFile, line);
+  const lines = content.split("\n");
+  for (let i = 0; i < lines.length; i++) {
+    const mdListLine = MDListLine.fromLine(srcFile, lines[i], i);
     // Flush
     if (buffer.length !== 0 && !mdListLine) {
       hunks.push(new MDListHunk(buffer));
@@ -225,7 +520,21 @@ export function parseContentToListHunks(srcFile: SourceFile, content: string): M
   return hunks;
 }
 
-export function parseListHunkToTree(srcFile: SourceFile, lines: MDListLine[]): MDListNode {
+/**
+ * パースはできたが、書き方がおかしい行
+ */
+export interface ParseProblem {
+  reason: string;
+  node: MDListNode;
+}
+
+/**
+ * インデントがおかしい行は、近いインデントの位置にあるものとして続ける。
+ *
+ * @param problems インデントがおかしい行が追加される
+ */
+export function parseListHunkToTree(srcFile: SourceFile, lines: MDListLine[],
+                                    problems: ParseProblem[] = []): MDListNode {
   const indentStep = getMinimumIndentStep(lines);
 
   const root = new MDListRootNode();
@@ -234,12 +543,14 @@ export function parseListHunkToTree(srcFile: SourceFile, lines: MDListLine[]): M
   for (const line of lines) {
     const node = line.toNode();
 
-    const indentLevel = line.getIndentLevel(indentStep);
+    let indentLevel = line.getIndentLevel(indentStep);
     if (indentLevel === undefined) {
-      throw parseError(srcFile, "Malformed indentation")
+      indentLevel = Math.round(line.indentWidth / indentStep);
+      problems.push({reason: "Malformed indentation", node});
     }
     if (indentLevel - lastIndentLevel > 1) {
-      throw parseError(srcFile, "Indent level increased: from " + lastIndentLevel + " to " + indentLevel);
+      problems.push({reason: "Indent level increased: from " + lastIndentLevel + " to " + indentLevel, node});
+      indentLevel = lastIndentLevel + 1;
     }
 
     if (indentLevel == lastIndentLevel) {
@@ -264,14 +575,11 @@ export function parseListHunkToTree(srcFile: SourceFile, lines: MDListLine[]): M
   return root;
 }
 
-function parseError(srcFile: SourceFile, msg: string) {
-  return new Error(srcFile.displayName + ": Unable to parse: " + msg);
-}
 export function getMinimumIndentStep(lines: MDListLine[]) {
   let min = -1;
   for (const line of lines) {
-    if (line.indentCharLen === 0) continue;
-    if (min === -1 || line.indentCharLen < min) min = line.indentCharLen;
+    if (line.indentWidth === 0) continue;
+    if (min === -1 || line.indentWidth < min) min = line.indentWidth;
   }
   return min === -1 ? 2 : min;
 }
@@ -281,3 +589,13 @@ export function parseCheckBox(text: string): [check: string, content: string] |
   if (!match) return undefined;
   return [match[1], match[2]];
 }
+
+/**
+ * チェックボックスを持つリストの行のチェック状態を書き換える。
+ * @return 書き換えた行。チェックボックスが無ければundefined
+ */
+export function setCheckBoxOfLine(rawLine: string, checked: boolean): string | undefined {
+  const match = rawLine.match(REGEX_LINE_CHECKBOX);
+  if (!match) return undefined;
+  return `${match[1]}[${checked ? CHECKBOX_DONE : CHECKBOX_UNDONE}]${match[3]}`;
+}
@@ -0,0 +1,76 @@
+import test from "node:test";
+import * as a from "assert";
+import {filterTasks, parseQuery, Query, QueryError} from "./query.js";
+import {DateRange, YMD} from "./datetime.js";
+import * as lib from "./lib.js";
+import {SourceFile} from "./md.js";
+
+test("parseQuery", () => {
+  const query = parseQuery(`xxx
+from: yyy
+exclude: "yyy/archive"
+between: 2025/03/01 2025/03/31
+status: undone
+tag: #work
+text: "Review"
+limit-weeks: 4
+period: month
+`) as Query;
+  a.deepStrictEqual(query.from, ["xxx", "yyy"]);
+  a.deepStrictEqual(query.exclude, ["yyy/archive"]);
+  a.deepStrictEqual(query.between, new DateRange(new YMD(2025, 3, 1), new YMD(2025, 3, 31)));
+  a.strictEqual(query.status, "undone");
+  a.deepStrictEqual(query.tags, ["#work"]);
+  a.deepStrictEqual(query.texts, ["review"]);
+  a.strictEqual(query.limitWeeks, 4);
+  a.strictEqual(query.period, "month");
+});
+
+test("parseQuery reports errors with line numbers", () => {
+  const errors = parseQuery(`xxx
+between: 2025/03/31
+status: open
+limit-weeks: -1
+tag: work
+foo: bar
+period: day
+`) as QueryError[];
+  a.deepStrictEqual(errors.map(e => e.line), [2, 3, 4, 5, 6, 7]);
+  a.deepStrictEqual((parseQuery("status: all") as QueryError[]).map(e => e.line), [1]);
+});
+
+test("filterTasks", () => {
+  const tasks = lib.parseContentToTasks(new SourceFile("A", "a", "xxx/a.md"), `- 2025/03/03
+  - [ ] review #work
+  - [x] review #work/meeting
+  - [ ] lunch
+- 2025/04/28
+  - [ ] review #work
+`)!;
+  tasks.addAllTasks(lib.parseContentToTasks(new SourceFile("B", "b", "xxx/archive/b.md"), `- 2025/03/03
+  - [ ] review #work
+`)!);
+  const query = parseQuery(`xxx
+exclude: xxx/archive
+between: 2025/03/01 2025/03/31
+tag: #work
+text: review
+`) as Query;
+  const countTasks = (root: lib.RootNode) => root.children
+    .map(temporal => temporal.children
+      .map(source => source.children.length)
+      .reduce((x, y) => x + y, 0))
+    .reduce((x, y) => x + y, 0);
+
+  const today = new YMD(2025, 3, 5);
+  a.strictEqual(countTasks(filterTasks(tasks, query, today)), 2);
+  a.strictEqual(countTasks(filterTasks(tasks, Object.assign({}, query, {status: "undone"}), today)), 1);
+  a.strictEqual(countTasks(filterTasks(tasks, Object.assign({}, query, {status: "done"}), today)), 1);
+  a.strictEqual(countTasks(filterTasks(tasks, parseQuery("xxx\nlimit-weeks: 1") as Query, today)), 4);
+  a.strictEqual(countTasks(filterTasks(tasks, parseQuery("xxx\nlimit-weeks: 8") as Query, today)), 5);
+
+  tasks.addAllTasks(lib.parseContentToTasks(new SourceFile("C", "c", "xxx/c.md", {hidden: true}), `- 2025/03/03
+  - [ ] review #work
+`)!);
+  a.strictEqual(countTasks(filterTasks(tasks, parseQuery("xxx\nlimit-weeks: 8") as Query, today)), 5);
+});
@@ -0,0 +1,268 @@
+import {DateRange, Week, YMD} from "./datetime.js";
+import {Node, NodeVisitor, RootNode, TaskNode} from "./lib.js";
+import {MDListNode} from "./md.js";
+
+export type TaskStatus = "all" | "done" | "undone";
+
+const TASK_STATUSES: TaskStatus[] = ["all", "done", "undone"];
+
+export type CalendarPeriod = "week" | "month";
+
+const CALENDAR_PERIODS: CalendarPeriod[] = ["week", "month"];
+
+/**
+ * weekly-task-collect ブロックの中身をパースしたもの。
+ *
+ * ```weekly-task-collect
+ * xxx
+ * from: yyy
+ * exclude: yyy/archive
+ * between: 2025/03/01 2025/03/31
+ * status: undone
+ * tag: #work
+ * text: "review"
+ * limit-weeks: 4
+ * period: month
+ * ```
+ *
+ * キーの無い行は from として扱う。
+ */
+export interface Query {
+  /**
+   * タスクを収集するフォルダ
+   */
+  from: string[];
+  /**
+   * 収集しないフォルダまたはファイル
+   */
+  exclude: string[];
+  /**
+   * この期間と重なる日付・週のタスクだけを表示する
+   */
+  between: DateRange | undefined;
+  /**
+   * undefinedなら、完了したタスクはソースの数にだけ含まれる (従来の表示)
+   */
+  status: TaskStatus | undefined;
+  /**
+   * すべてのタグを含むタスクだけを表示する
+   */
+  tags: string[];
+  /**
+   * すべての文字列を含むタスクだけを表示する (大文字と小文字は区別しない)
+   */
+  texts: string[];
+  /**
+   * 今週の前後何週間までを表示するか
+   */
+  limitWeeks: number | undefined;
+  /**
+   * weekly-task-calendar ブロックで、between や limit-weeks が無いときに表示する今週または今月
+   */
+  period: CalendarPeriod | undefined;
+}
+
+export class QueryError {
+  /**
+   * ブロック内の行番号 (1始まり)
+   */
+  line: number;
+  reason: string;
+
+  constructor(line: number, reason: string) {
+    this.line = line;
+    this.reason = reason;
+  }
+
+  toString() {
+    return `line ${this.line}: ${this.reason}`;
+  }
+}
+
+const REGEX_QUERY_LINE = /^([a-z-]+):\s*(.*)$/;
+const REGEX_QUOTED = /^"(.*)"$/;
+const REGEX_TAG = /^#[^\s#]+$/;
+
+function unquote(value: string): string {
+  const match = value.match(REGEX_QUOTED);
+  return match ? match[1] : value;
+}
+
+/**
+ * @return パースできなければ、すべてのエラー
+ */
+export function parseQuery(src: string): Query | QueryError[] {
+  const query: Query = {
+    from: [],
+    exclude: [],
+    between: undefined,
+    status: undefined,
+    tags: [],
+    texts: [],
+    limitWeeks: undefined,
+    period: undefined,
+  };
+  const errors: QueryError[] = [];
+  const lines = src.split("\n");
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (line === "") continue;
+    const error = (reason: string) => errors.push(new QueryError(i + 1, reason));
+
+    const match = line.match(REGEX_QUERY_LINE);
+    if (!match) {
+      query.from.push(line);
+      continue;
+    }
+    const value = match[2].trim();
+    if (value === "") {
+      error(`"${match[1]}" needs a value`);
+      continue;
+    }
+    switch (match[1]) {
+      case "from":
+        query.from.push(unquote(value));
+        break;
+      case "exclude":
+        query.exclude.push(unquote(value));
+        break;
+      case "between": {
+        if (query.between) {
+          error(`"between" is specified more than once`);
+          break;
+        }
+        const rawDates = value.split(/\s+/);
+        const dates = rawDates.map(rawDate => YMD.fromString(rawDate));
+        if (dates.length !== 2 || dates[0] === undefined || dates[1] === undefined) {
+          error(`"between" needs two dates such as "${new YMD(2025, 3, 1)} ${new YMD(2025, 3, 31)}"`);
+          break;
+        }
+        if (dates[1].earlierThan(dates[0])) {
+          error(`"between" has the later date first`);
+          break;
+        }
+        query.between = new DateRange(dates[0], dates[1]);
+        break;
+      }
+      case "status":
+        if (!TASK_STATUSES.includes(value as TaskStatus)) {
+          error(`"status" must be one of ${TASK_STATUSES.join(", ")}`);
+          break;
+        }
+        query.status = value as TaskStatus;
+        break;
+      case "tag":
+        if (!REGEX_TAG.test(value)) {
+          error(`"tag" must be a tag such as #work`);
+          break;
+        }
+        query.tags.push(value);
+        break;
+      case "text": {
+        const text = unquote(value);
+        if (text === "") {
+          error(`"text" needs a value`);
+          break;
+        }
+        query.texts.push(text.toLowerCase());
+        break;
+      }
+      case "limit-weeks": {
+        const weeks = Number(value);
+        if (!Number.isInteger(weeks) || weeks < 0) {
+          error(`"limit-weeks" must be a non-negative integer`);
+          break;
+        }
+        query.limitWeeks = weeks;
+        break;
+      }
+      case "period":
+        if (!CALENDAR_PERIODS.includes(value as CalendarPeriod)) {
+          error(`"period" must be one of ${CALENDAR_PERIODS.join(", ")}`);
+          break;
+        }
+        query.period = value as CalendarPeriod;
+        break;
+      default:
+        error(`Unknown key "${match[1]}" (write "from: ${line}" for a folder with ":" in its name)`);
+        break;
+    }
+  }
+  if (query.from.length === 0 && errors.length === 0) {
+    errors.push(new QueryError(1, "No folder to collect tasks from"));
+  }
+  return errors.length === 0 ? query : errors;
+}
+
+function isUnder(path: string, folderOrFile: string): boolean {
+  return path === folderOrFile || path.startsWith(folderOrFile + "/");
+}
+
+function collectTexts(node: MDListNode): string[] {
+  const texts = [node.text];
+  for (const child of node.children) {
+    texts.push(...collectTexts(child));
+  }
+  return texts;
+}
+
+function hasTag(texts: string[], tag: string): boolean {
+  return texts.some(text => {
+    for (const word of text.split(/\s+/)) {
+      if (word === tag || word.startsWith(tag + "/")) return true;
+    }
+    return false;
+  });
+}
+
+/**
+ * @param today limit-weeks の基準になる日
+ * @return クエリに合うタスクだけを含む新しいRootNode
+ */
+export function filterTasks(tasks: RootNode, query: Query, today: YMD): RootNode {
+  let window: DateRange | undefined = undefined;
+  if (query.limitWeeks !== undefined) {
+    const thisWeek = Week.fromYMD(today).range;
+    window = new DateRange(
+      thisWeek.from.plusDays(-7 * query.limitWeeks),
+      thisWeek.to.plusDays(7 * query.limitWeeks));
+  }
+
+  const isIncluded = (taskNode: TaskNode): boolean => {
+    const task = taskNode.task;
+    if (query.exclude.some(exclude => isUnder(task.task.srcFile.path, exclude))) return false;
+    if (task.task.srcFile.meta.hidden) return false;
+    const range = task.temporal.toDateRange();
+    if (query.between && !query.between.overlaps(range)) return false;
+    if (window && !window.overlaps(range)) return false;
+    if (query.status === "done" && !task.task.isAllChecked()) return false;
+    if (query.status === "undone" && task.task.isAllChecked()) return false;
+    if (query.tags.length !== 0 || query.texts.length !== 0) {
+      const texts = collectTexts(task.task);
+      if (!query.tags.every(tag => hasTag(texts, tag))) return false;
+      const lowerTexts = texts.map(text => text.toLowerCase());
+      if (!query.texts.every(text => lowerTexts.some(value => value.includes(text)))) return false;
+    }
+    return true;
+  };
+
+  const filtered = new RootNode();
+  tasks.visit(filtered, new class implements NodeVisitor<RootNode> {
+    enter(node: Node, ctx: RootNode): () => RootNode {
+      if (node instanceof TaskNode && isIncluded(node)) {
+        ctx.addTask(node.task);
+      }
+      return function () {
+        return ctx;
+      };
+    }
+
+    exit(node: Node, ctx: RootNode, childrenCtx: RootNode[]): void {
+    }
+  });
+  filtered.malformedMDs = tasks.malformedMDs.filter(malformedMD => {
+    return !malformedMD.node.srcFile.meta.hidden
+      && !query.exclude.some(exclude => isUnder(malformedMD.node.srcFile.path, exclude));
+  });
+  return filtered;
+}
@@ -0,0 +1,56 @@
+import test from "node:test";
+import * as a from "assert";
+import * as lib from "./lib.js";
+import {YMD} from "./datetime.js";
+import * as md from "./md.js";
+import {SourceFile} from "./md.js";
+import {generateRuleMarkdown, setOccurrenceDone} from "./recurrence.js";
+
+const SRC = new SourceFile("URI", "SRC", "SRC.md");
+
+const CONTENT = `- every Mon,Thu from 2025/04/01 until 2025/04/10
+  - done: 2025/04/03
+  - [ ] stretch
+    - [ ] legs`;
+
+test("recurrence rules are expanded into days", () => {
+  const tasks = lib.parseContentToTasks(SRC, CONTENT)!;
+  a.deepStrictEqual(
+    tasks.children.map(node => node.temporal.toString()),
+    ["2025/04/03", "2025/04/07", "2025/04/10"]
+  );
+  const isDone = tasks.children.map(node => node.children[0].children[0].task.task.isAllChecked());
+  a.deepStrictEqual(isDone, [true, false, false]);
+  a.strictEqual(tasks.children[0].children[0].children[0].task.task.text, "stretch");
+});
+
+test("invalid recurrence rules are malformed", () => {
+  const content = "- every Mon from 2025/04/10 until 2025/04/01\n  - [ ] task";
+  const hunk = md.parseContentToListHunks(SRC, content)[0];
+  const root = lib.parseMDRootToTaskRoot(md.parseListHunkToTree(SRC, hunk.lines));
+  a.strictEqual(root.hasTasks(), false);
+  a.strictEqual(root.malformedMDs.length, 1);
+});
+
+test("setOccurrenceDone", () => {
+  const tasks = lib.parseContentToTasks(SRC, CONTENT)!;
+  const occurrenceOf = (i: number) => tasks.children[i].children[0].children[0].task.occurrence!;
+  const lines = CONTENT.split("\n");
+
+  a.deepStrictEqual(setOccurrenceDone(lines, occurrenceOf(1), true)![1], "  - done: 2025/04/03, 2025/04/07");
+  a.deepStrictEqual(setOccurrenceDone(lines, occurrenceOf(0), false), [lines[0], lines[2], lines[3]]);
+  a.strictEqual(setOccurrenceDone(["changed", ...lines.slice(1)], occurrenceOf(1), true), undefined);
+
+  const withoutDone = [lines[0], lines[2], lines[3]];
+  const occurrence = lib.parseContentToTasks(SRC, withoutDone.join("\n"))!
+    .children[0].children[0].children[0].task.occurrence!;
+  a.deepStrictEqual(setOccurrenceDone(withoutDone, occurrence, true),
+    [lines[0], "  - done: 2025/04/03", lines[2], lines[3]]);
+});
+
+test("generateRuleMarkdown", () => {
+  a.strictEqual(
+    generateRuleMarkdown([1, 4], new YMD(2025, 4, 1), new YMD(2025, 4, 10), "- [ ] task"),
+    "- every Mon,Thu from 2025/04/01 until 2025/04/10\n    - [ ] task\n"
+  );
+});
@@ -0,0 +1,187 @@
+import {genDates, YMD} from "./datetime.js";
+import {MDListNode} from "./md.js";
+
+export const DAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const REGEX_RULE = /^every\s+(\S+)\s+from\s+(.+?)\s+until\s+(.+)$/i;
+const REGEX_RULE_PREFIX = /^every\s/i;
+const REGEX_EXCEPTIONS = /^done:\s*(.*)$/;
+const EXCEPTIONS_DELIMITER = ", ";
+const CHECKBOX_UNDONE = " ";
+const CHECKBOX_DONE = "x";
+
+/**
+ * 繰り返しタスクの見出し。
+ *
+ * - every Mon,Thu from 2025/04/01 until 2025/07/31
+ *   - done: 2025/04/03, 2025/04/07
+ *   - [ ] task
+ *
+ * 子のうち "done:" で始まるものには完了した日付が記録され、それ以外が各日のタスクになる。
+ */
+export class RecurrenceRule {
+  readonly header: MDListNode;
+  /**
+   * 0が日曜日
+   */
+  readonly days: number[];
+  readonly from: YMD;
+  readonly until: YMD;
+  /**
+   * 完了した日付を記録しているノード
+   */
+  readonly exceptionsNode: MDListNode | undefined;
+  readonly doneDates: YMD[];
+
+  constructor(header: MDListNode, days: number[], from: YMD, until: YMD,
+              exceptionsNode: MDListNode | undefined, doneDates: YMD[]) {
+    this.header = header;
+    this.days = days;
+    this.from = from;
+    this.until = until;
+    this.exceptionsNode = exceptionsNode;
+    this.doneDates = doneDates;
+  }
+
+  static isRule(header: MDListNode): boolean {
+    return REGEX_RULE_PREFIX.test(header.text);
+  }
+
+  /**
+   * @return パースできなければその理由
+   */
+  static fromNode(header: MDListNode): RecurrenceRule | string {
+    const match = header.text.match(REGEX_RULE);
+    if (!match) {
+      return "Invalid recurrence rule";
+    }
+    const days: number[] = [];
+    for (const rawDay of match[1].split(",")) {
+      const day = DAY_NAMES.findIndex(name => name.toLowerCase() === rawDay.trim().toLowerCase());
+      if (day === -1) {
+        return "Invalid day of week: " + rawDay;
+      }
+      days.push(day);
+    }
+    const from = YMD.fromString(match[2]);
+    const until = YMD.fromString(match[3]);
+    if (!from || !until) {
+      return "Invalid date format";
+    }
+    if (until.earlierThan(from)) {
+      return "Invalid range";
+    }
+
+    let exceptionsNode: MDListNode | undefined = undefined;
+    const doneDates: YMD[] = [];
+    for (const child of header.children) {
+      const exceptionsMatch = child.text.match(REGEX_EXCEPTIONS);
+      if (!exceptionsMatch) continue;
+      exceptionsNode = child;
+      for (const rawDate of exceptionsMatch[1].split(",")) {
+        if (rawDate.trim() === "") continue;
+        const date = YMD.fromString(rawDate.trim());
+        if (!date) {
+          return "Invalid date format in done dates: " + rawDate;
+        }
+        doneDates.push(date);
+      }
+    }
+    return new RecurrenceRule(header, days, from, until, exceptionsNode, doneDates);
+  }
+
+  /**
+   * @return 各日のタスクの元になるノード
+   */
+  getTemplates(): MDListNode[] {
+    return this.header.children.filter(child => child !== this.exceptionsNode);
+  }
+
+  * occurrences(): Generator<YMD> {
+    for (const date of genDates(this.from, this.until)) {
+      if (this.days.includes(date.toDate().getDay())) {
+        yield date;
+      }
+    }
+  }
+
+  isDone(date: YMD): boolean {
+    return this.doneDates.some(value => value.equals(date));
+  }
+
+  /**
+   * ある日のタスクを作る。チェックボックスはその日が完了しているかどうかで決まる。
+   */
+  expand(template: MDListNode, date: YMD): MDListNode {
+    const checkText = this.isDone(date) ? CHECKBOX_DONE : CHECKBOX_UNDONE;
+    const occurrence = template.cloneWithSourceFile(template.srcFile);
+    const setCheckTextRecursive = (node: MDListNode) => {
+      if (node.checkText !== undefined) {
+        node.checkText = checkText;
+      }
+      node.children.forEach(setCheckTextRecursive);
+    }
+    setCheckTextRecursive(occurrence);
+    return occurrence;
+  }
+}
+
+/**
+ * 繰り返しタスクのある日の分
+ */
+export interface Occurrence {
+  rule: RecurrenceRule;
+  date: YMD;
+}
+
+function getIndent(rawText: string): string {
+  return rawText.match(/^\s*/)![0];
+}
+
+/**
+ * ある日の完了を見出しの下の "done:" に記録する。
+ *
+ * @param lines ファイルの全ての行
+ * @return 書き換えた行。ファイルがパースされたときから変わっていればundefined
+ */
+export function setOccurrenceDone(lines: string[], occurrence: Occurrence, done: boolean): string[] | undefined {
+  const rule = occurrence.rule;
+  const headerLine = rule.header.line;
+  if (!headerLine || lines[headerLine.lineNumber] !== headerLine.rawText) return undefined;
+
+  const doneDates = rule.doneDates.filter(date => !date.equals(occurrence.date));
+  if (done) {
+    doneDates.push(occurrence.date);
+  }
+  doneDates.sort((a, b) => a.compare(b));
+
+  const updated = Array.from(lines);
+  const exceptionsLine = rule.exceptionsNode?.line;
+  if (exceptionsLine) {
+    if (lines[exceptionsLine.lineNumber] !== exceptionsLine.rawText) return undefined;
+    if (doneDates.length === 0) {
+      updated.splice(exceptionsLine.lineNumber, 1);
+    } else {
+      updated[exceptionsLine.lineNumber] = getIndent(exceptionsLine.rawText)
+        + exceptionsLine.marker + " done: " + doneDates.join(EXCEPTIONS_DELIMITER);
+    }
+  } else if (doneDates.length !== 0) {
+    const firstChildLine = rule.header.children[0]?.line;
+    const indent = firstChildLine
+      ? getIndent(firstChildLine.rawText)
+      : getIndent(headerLine.rawText) + "  ";
+    updated.splice(headerLine.lineNumber + 1, 0, indent + "- done: " + doneDates.join(EXCEPTIONS_DELIMITER));
+  }
+  return updated;
+}
+
+/**
+ * 繰り返しタスクの見出しとタスクのMarkdownを作る
+ */
+export function generateRuleMarkdown(days: number[], from: YMD, until: YMD, taskMD: string): string {
+  let text = `- every ${days.map(day => DAY_NAMES[day]).join(",")} from ${from} until ${until}\n`;
+  taskMD.split("\n").forEach(value => {
+    text += "    " + value + "\n";
+  });
+  return text;
+}
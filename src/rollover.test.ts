@@ -0,0 +1,68 @@
+import test from "node:test";
+import * as a from "assert";
+import * as lib from "./lib.js";
+import {YMD} from "./datetime.js";
+import {SourceFile} from "./md.js";
+import {applyRollover, planRollover} from "./rollover.js";
+
+const SRC = new SourceFile("URI", "SRC", "SRC.md");
+const TODAY = new YMD(2025, 5, 7);
+
+test("planRollover picks undone tasks in the past", () => {
+  const tasks = lib.parseContentToTasks(SRC, `- 2025/04/28 ~ 2025/05/04
+  - [ ] weekly
+- 2025/05/06
+  - [ ] undone
+  - [x] done
+  - memo
+- 2025/05/07
+  - [ ] today
+`)!;
+  const moves = planRollover(tasks, TODAY).get(SRC.path)!;
+  a.deepStrictEqual(moves.map(move => move.task.task.text), ["weekly", "undone"]);
+  a.deepStrictEqual(moves.map(move => move.target.toString()), ["2025/05/05 ~ 2025/05/11", "2025/05/07"]);
+});
+
+test("applyRollover moves tasks under existing headers", () => {
+  const content = `- 2025/05/06
+    - [ ] undone
+        - child
+    - [x] done
+- 2025/05/07
+    - [ ] today`;
+  const tasks = lib.parseContentToTasks(SRC, content)!;
+  const moves = planRollover(tasks, TODAY).get(SRC.path)!;
+  a.deepStrictEqual(applyRollover(content.split("\n"), moves), [
+    "- 2025/05/06",
+    "    - [x] done",
+    "- 2025/05/07",
+    "    - [ ] today",
+    "    - [ ] undone",
+    "        - child",
+  ]);
+  a.strictEqual(applyRollover(["- 2025/05/06", "    - [ ] changed"], moves), undefined);
+});
+
+test("applyRollover creates missing headers", () => {
+  const content = `# title
+- 2025/05/05 ~ 2025/05/11
+- 2025/05/05
+  - [ ] undone
+- 2025/05/08
+  - [ ] future
+
+memo`;
+  const tasks = lib.parseContentToTasks(SRC, content)!;
+  const moves = planRollover(tasks, TODAY).get(SRC.path)!;
+  a.deepStrictEqual(applyRollover(content.split("\n"), moves), [
+    "# title",
+    "- 2025/05/05 ~ 2025/05/11",
+    "- 2025/05/05",
+    "- 2025/05/07",
+    "  - [ ] undone",
+    "- 2025/05/08",
+    "  - [ ] future",
+    "",
+    "memo",
+  ]);
+});
@@ -0,0 +1,103 @@
+import {Temporal, Week, YMD} from "./datetime.js";
+import * as lib from "./lib.js";
+import {Node, NodeVisitor, RootNode, Task, TaskNode} from "./lib.js";
+import {MDListNode} from "./md.js";
+
+/**
+ * 過去の未完了タスクを今日または今週の見出しの下に移すこと
+ */
+export interface RolloverMove {
+  task: Task;
+  /**
+   * 移動先の見出し
+   */
+  target: Temporal;
+}
+
+/**
+ * 日付 (時間帯を含む) のタスクは今日に、週や月のタスクは今週に移す
+ */
+export function getRolloverTarget(temporal: Temporal, today: YMD): Temporal {
+  return temporal.toDateRange().getLengthInDays() === 1
+    ? today
+    : Week.fromYMD(today).range;
+}
+
+/**
+ * 移動すべきタスクを探す。
+ * 繰り返しタスクから展開されたもの、チェックボックスの無いもの、
+ * 見出しの下に無いもの (文面の日付やデイリーノートの日付のもの) は移さない。
+ *
+ * @return Key: file path
+ */
+export function planRollover(tasks: RootNode, today: YMD): Map<string, RolloverMove[]> {
+  const movesByPath: Map<string, RolloverMove[]> = new Map();
+  tasks.visit(undefined, new class implements NodeVisitor<undefined> {
+    enter(node: Node, ctx: undefined): () => undefined {
+      if (node instanceof TaskNode) {
+        const task = node.task;
+        const isPast = task.temporal.toDateRange().to.earlierThan(today);
+        if (isPast
+          && task.occurrence === undefined
+          && task.header !== undefined
+          && task.task.checkText !== undefined
+          && task.task.line !== undefined
+          && !task.task.isAllChecked()) {
+          const path = task.task.srcFile.path;
+          const moves = movesByPath.get(path) ?? [];
+          moves.push({task, target: getRolloverTarget(task.temporal, today)});
+          movesByPath.set(path, moves);
+        }
+      }
+      return function () {
+        return undefined;
+      };
+    }
+
+    exit(node: Node, ctx: undefined, childrenCtx: undefined[]): void {
+    }
+  });
+  return movesByPath;
+}
+
+function isUnchanged(lines: string[], node: MDListNode): boolean {
+  if (node.line && lines[node.line.lineNumber] !== node.line.rawText) return false;
+  return node.children.every(child => isUnchanged(lines, child));
+}
+
+/**
+ * タスクを元の場所から消し、移動先の見出しの下に書き込む。
+ *
+ * @param lines ファイルの全ての行
+ * @param moves このファイルのタスクの移動
+ * @return 書き換えた行。ファイルがパースされたときから変わっていればundefined
+ */
+export function applyRollover(lines: string[], moves: RolloverMove[]): string[] | undefined {
+  if (!moves.every(move => isUnchanged(lines, move.task.task))) return undefined;
+  const indentUnit = lib.getIndentUnit(lines);
+
+  const ranges = moves
+    .map(move => [move.task.task.line!.lineNumber, move.task.task.getLastLineNumber()!])
+    .sort((a, b) => b[0] - a[0]);
+  let updated = Array.from(lines);
+  for (const [first, last] of ranges) {
+    updated.splice(first, last - first + 1);
+  }
+
+  const targets: Temporal[] = [];
+  for (const move of moves) {
+    if (!targets.some(target => target.equals(move.target))) {
+      targets.push(move.target);
+    }
+  }
+  for (const target of targets) {
+    const taskLines = moves
+      .filter(move => move.target.equals(target))
+      .map(move => move.task.task.generateMarkdown(1, indentUnit))
+      .join("")
+      .split("\n")
+      .filter(line => line !== "");
+    updated = lib.insertUnderHeader(updated, target, taskLines);
+  }
+  return updated;
+}
@@ -0,0 +1,75 @@
+import test from "node:test";
+import * as a from "assert";
+import {
+  DEFAULT_SETTINGS,
+  formatCheckboxStatuses,
+  isParsingChanged,
+  loadSettingsFrom,
+  parseCheckboxStatuses,
+  validateSettings,
+  WTCSettings
+} from "./settings.js";
+
+function withDefaults(overrides: Partial<WTCSettings>): WTCSettings {
+  return Object.assign({}, DEFAULT_SETTINGS, overrides);
+}
+
+test("validateSettings", () => {
+  a.deepStrictEqual(validateSettings(DEFAULT_SETTINGS), {});
+  a.deepStrictEqual(validateSettings(withDefaults({dateFormat: "YYYY-MM-DD"})), {});
+  a.deepStrictEqual(Object.keys(validateSettings(withDefaults({dateFormat: "YYYY/MM"}))), ["dateFormat"]);
+  a.deepStrictEqual(Object.keys(validateSettings(withDefaults({dateRangeDelimiter: "/"}))), ["dateRangeDelimiter"]);
+  a.deepStrictEqual(Object.keys(validateSettings(withDefaults({weekBeginDay: 7}))), ["weekBeginDay"]);
+  a.deepStrictEqual(Object.keys(validateSettings(withDefaults({oldTaskDays: -1}))), ["oldTaskDays"]);
+  a.deepStrictEqual(Object.keys(validateSettings(withDefaults({debounceMillis: NaN}))), ["debounceMillis"]);
+  a.deepStrictEqual(Object.keys(validateSettings(withDefaults({debounceMillis: 0.5}))), ["debounceMillis"]);
+  a.deepStrictEqual(Object.keys(validateSettings(withDefaults({shortNameLength: 0}))), ["shortNameLength"]);
+  a.deepStrictEqual(Object.keys(validateSettings(withDefaults({viewRootPaths: ["tasks", " "]}))), ["viewRootPaths"]);
+});
+
+test("loadSettingsFrom", () => {
+  a.deepStrictEqual(loadSettingsFrom(null), DEFAULT_SETTINGS);
+  a.deepStrictEqual(loadSettingsFrom({dateFormat: 3, monthFormat: null, dateRangeDelimiter: 1}), DEFAULT_SETTINGS);
+  a.deepStrictEqual(loadSettingsFrom({mySetting: "default"}), DEFAULT_SETTINGS);
+  a.deepStrictEqual(
+    loadSettingsFrom({oldTaskDays: 14, shortNameLength: -3}),
+    withDefaults({oldTaskDays: 14})
+  );
+  a.deepStrictEqual(
+    loadSettingsFrom({viewRootPaths: "tasks", openViewOnStartup: true}),
+    withDefaults({openViewOnStartup: true})
+  );
+});
+
+test("validateSettings rejects month formats read as dates", () => {
+  a.deepStrictEqual(Object.keys(validateSettings(withDefaults({monthFormat: "YYYY"}))), ["monthFormat"]);
+  a.deepStrictEqual(Object.keys(validateSettings(withDefaults({monthFormat: "YYYY/MM/DD"}))), ["monthFormat"]);
+});
+
+test("parseCheckboxStatuses", () => {
+  a.deepStrictEqual(
+    parseCheckboxStatuses(formatCheckboxStatuses(DEFAULT_SETTINGS.checkboxStatuses)),
+    DEFAULT_SETTINGS.checkboxStatuses);
+  a.deepStrictEqual(parseCheckboxStatuses("[ ] todo open\n\n[!] deferred closed"), [
+    {symbol: " ", state: "todo", isOpen: true},
+    {symbol: "!", state: "deferred", isOpen: false},
+  ]);
+  a.strictEqual(typeof parseCheckboxStatuses("[ ] todo"), "string");
+  a.strictEqual(typeof parseCheckboxStatuses("[ ] waiting open"), "string");
+  a.strictEqual(typeof parseCheckboxStatuses("[x] done closed\n[x] cancelled closed"), "string");
+  a.deepStrictEqual(Object.keys(validateSettings(withDefaults({checkboxStatuses: [
+    {symbol: "xx", state: "done", isOpen: false},
+  ]}))), ["checkboxStatuses"]);
+});
+
+test("validateSettings checks daily note settings", () => {
+  a.deepStrictEqual(validateSettings(withDefaults({dailyNoteFolders: ["daily"], dailyNoteFormat: "YYYYMMDD"})), {});
+  a.deepStrictEqual(Object.keys(validateSettings(withDefaults({dailyNoteFormat: "YYYY-MM"}))), ["dailyNoteFormat"]);
+  a.deepStrictEqual(Object.keys(validateSettings(withDefaults({dailyNoteFolders: [""]}))), ["dailyNoteFolders"]);
+});
+
+test("isParsingChanged", () => {
+  a.strictEqual(isParsingChanged(DEFAULT_SETTINGS, withDefaults({viewRootPaths: ["tasks"]})), false);
+  a.strictEqual(isParsingChanged(DEFAULT_SETTINGS, withDefaults({dateFormat: "YYYY-MM-DD"})), true);
+  a.strictEqual(isParsingChanged(DEFAULT_SETTINGS, withDefaults({dailyNoteFolders: ["daily"]})), true);
+});
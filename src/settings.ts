@@ -0,0 +1,271 @@
+import moment from "moment/moment.js";
+
+export type CheckboxState = "todo" | "in-progress" | "done" | "cancelled" | "deferred";
+
+export const CHECKBOX_STATES: CheckboxState[] = ["todo", "in-progress", "done", "cancelled", "deferred"];
+
+/**
+ * チェックボックスの中の文字の意味
+ */
+export interface CheckboxStatus {
+  /**
+   * チェックボックスの中の1文字 (e.g. "/" for "[/]")
+   */
+  symbol: string;
+  state: CheckboxState;
+  /**
+   * 未完了のタスクとして数えて表示するか
+   */
+  isOpen: boolean;
+}
+
+export interface WTCSettings {
+  /**
+   * moment.js形式の日付フォーマット
+   */
+  dateFormat: string;
+  /**
+   * moment.js形式の月のフォーマット
+   */
+  monthFormat: string;
+  /**
+   * 週の範囲の区切り (e.g. "2025/04/28 ~ 2025/05/04")
+   */
+  dateRangeDelimiter: string;
+  /**
+   * 週の始まりの曜日。0が日曜日、1が月曜日
+   */
+  weekBeginDay: number;
+  /**
+   * 何日より前のタスクを "Old Tasks" にまとめるか
+   */
+  oldTaskDays: number;
+  /**
+   * タスクの再収集を行わない間隔 (ms)
+   */
+  debounceMillis: number;
+  /**
+   * 日付の行に表示するソースの短縮名の文字数
+   */
+  shortNameLength: number;
+  /**
+   * サイドバーのビューでタスクを収集するフォルダ
+   */
+  viewRootPaths: string[];
+  /**
+   * 起動時にサイドバーのビューを開くか
+   */
+  openViewOnStartup: boolean;
+  /**
+   * チェックボックスの状態の表。ここに無い文字は完了として扱う
+   */
+  checkboxStatuses: CheckboxStatus[];
+  /**
+   * ファイル名が日付のノート (デイリーノート) を置くフォルダ
+   */
+  dailyNoteFolders: string[];
+  /**
+   * moment.js形式の、デイリーノートのファイル名 (拡張子を除く) のフォーマット
+   */
+  dailyNoteFormat: string;
+}
+
+export const DEFAULT_SETTINGS: WTCSettings = {
+  dateFormat: "YYYY/MM/DD",
+  monthFormat: "YYYY/MM",
+  dateRangeDelimiter: " ~ ",
+  weekBeginDay: 1,
+  oldTaskDays: 7,
+  debounceMillis: 1000,
+  shortNameLength: 2,
+  viewRootPaths: [],
+  openViewOnStartup: false,
+  checkboxStatuses: [
+    {symbol: " ", state: "todo", isOpen: true},
+    {symbol: "x", state: "done", isOpen: false},
+    {symbol: "X", state: "done", isOpen: false},
+    {symbol: "/", state: "in-progress", isOpen: true},
+    {symbol: "-", state: "cancelled", isOpen: false},
+    {symbol: ">", state: "deferred", isOpen: true},
+  ],
+  dailyNoteFolders: [],
+  dailyNoteFormat: "YYYY-MM-DD",
+}
+
+export type SettingErrors = Partial<Record<keyof WTCSettings, string>>;
+
+let currentSettings: WTCSettings = Object.assign({}, DEFAULT_SETTINGS);
+
+/**
+ * datetime.ts や lib.ts から参照される現在の設定
+ */
+export function getSettings(): Readonly<WTCSettings> {
+  return currentSettings;
+}
+
+export function setSettings(settings: WTCSettings) {
+  currentSettings = Object.assign({}, settings);
+}
+
+function isDateFormat(format: string, sample: moment.Moment): boolean {
+  if (typeof format !== "string") return false;
+  const parsed = moment(sample.format(format), format, true);
+  return format.trim() !== "" && parsed.isValid() && parsed.isSame(sample, "day");
+}
+
+// Settings read while parsing the notes. TaskIndex keeps the parsed results of the others.
+const PARSING_SETTING_KEYS: (keyof WTCSettings)[] = [
+  "dateFormat", "monthFormat", "dateRangeDelimiter", "weekBeginDay", "dailyNoteFolders", "dailyNoteFormat",
+];
+
+/**
+ * @return ノートをパースし直す必要のある設定が変わったか
+ */
+export function isParsingChanged(before: WTCSettings, after: WTCSettings): boolean {
+  return PARSING_SETTING_KEYS.some(key => JSON.stringify(before[key]) !== JSON.stringify(after[key]));
+}
+
+function isIntegerBetween(n: number, min: number, max: number) {
+  return Number.isInteger(n) && min <= n && n <= max;
+}
+
+/**
+ * @return 不正な設定項目とその理由。空なら妥当
+ */
+export function validateSettings(settings: WTCSettings): SettingErrors {
+  const errors: SettingErrors = {};
+
+  // 日付として書き出したものを読み戻せないフォーマットは使えない
+  const sample = moment(new Date(2025, 11, 31));
+  if (!isDateFormat(settings.dateFormat, sample)) {
+    errors.dateFormat = "The format must contain year, month and day";
+  }
+  const formatted = errors.dateFormat === undefined ? sample.format(settings.dateFormat) : "";
+
+  // 月の見出しが日付として読めてしまってはいけない
+  const isMonthFormatString = typeof settings.monthFormat === "string";
+  const formattedMonth = isMonthFormatString ? sample.format(settings.monthFormat) : "";
+  const parsedMonth = moment(formattedMonth, isMonthFormatString ? settings.monthFormat : "", true);
+  if (!isMonthFormatString
+    || settings.monthFormat.trim() === ""
+    || !parsedMonth.isValid()
+    || !parsedMonth.isSame(sample, "month")) {
+    errors.monthFormat = "The format must contain year and month";
+  } else if (errors.dateFormat === undefined && moment(formattedMonth, settings.dateFormat, true).isValid()) {
+    errors.monthFormat = "The format must be distinguishable from the date format";
+  }
+
+  if (typeof settings.dateRangeDelimiter !== "string" || settings.dateRangeDelimiter === "") {
+    errors.dateRangeDelimiter = "The delimiter must not be empty";
+  } else if (errors.dateFormat === undefined && formatted.includes(settings.dateRangeDelimiter)) {
+    errors.dateRangeDelimiter = "The delimiter must not appear in a formatted date";
+  }
+
+  if (!isIntegerBetween(settings.weekBeginDay, 0, 6)) {
+    errors.weekBeginDay = "The day must be between 0 (Sunday) and 6 (Saturday)";
+  }
+  if (!isIntegerBetween(settings.oldTaskDays, 0, Number.MAX_SAFE_INTEGER)) {
+    errors.oldTaskDays = "The number of days must be a non-negative integer";
+  }
+  if (!isIntegerBetween(settings.debounceMillis, 0, Number.MAX_SAFE_INTEGER)) {
+    errors.debounceMillis = "The interval must be a non-negative integer";
+  }
+  if (!isIntegerBetween(settings.shortNameLength, 1, Number.MAX_SAFE_INTEGER)) {
+    errors.shortNameLength = "The length must be a positive integer";
+  }
+  if (!isPathList(settings.viewRootPaths)) {
+    errors.viewRootPaths = "The folders must be non-empty paths";
+  }
+  if (typeof settings.openViewOnStartup !== "boolean") {
+    errors.openViewOnStartup = "The value must be true or false";
+  }
+  if (!isPathList(settings.dailyNoteFolders)) {
+    errors.dailyNoteFolders = "The folders must be non-empty paths";
+  }
+  if (!isDateFormat(settings.dailyNoteFormat, sample)) {
+    errors.dailyNoteFormat = "The format must contain year, month and day";
+  }
+  const statusErrors = Array.isArray(settings.checkboxStatuses)
+    ? validateCheckboxStatuses(settings.checkboxStatuses)
+    : "The statuses must be a list";
+  if (statusErrors !== undefined) {
+    errors.checkboxStatuses = statusErrors;
+  }
+  return errors;
+}
+
+function isPathList(paths: string[]): boolean {
+  return Array.isArray(paths) && paths.every(path => typeof path === "string" && path.trim() !== "");
+}
+
+/**
+ * @return 不正ならその理由
+ */
+function validateCheckboxStatuses(statuses: CheckboxStatus[]): string | undefined {
+  const symbols = new Set<string>();
+  for (const status of statuses) {
+    if (typeof status?.symbol !== "string" || status.symbol.length !== 1) {
+      return "The symbol must be a character";
+    }
+    if (!CHECKBOX_STATES.includes(status.state)) {
+      return `The state must be one of ${CHECKBOX_STATES.join(", ")}`;
+    }
+    if (typeof status.isOpen !== "boolean") {
+      return "Whether the status is open must be true or false";
+    }
+    if (symbols.has(status.symbol)) {
+      return `The symbol "${status.symbol}" is duplicated`;
+    }
+    symbols.add(status.symbol);
+  }
+  return undefined;
+}
+
+/**
+ * 設定画面で編集するための形式 (e.g. "[/] in-progress open") にする
+ */
+export function formatCheckboxStatuses(statuses: CheckboxStatus[]): string {
+  return statuses
+    .map(status => `[${status.symbol}] ${status.state} ${status.isOpen ? "open" : "closed"}`)
+    .join("\n");
+}
+
+/**
+ * formatCheckboxStatuses の形式を読む。空行は無視する
+ *
+ * @return 読めなければその理由
+ */
+export function parseCheckboxStatuses(text: string): CheckboxStatus[] | string {
+  const statuses: CheckboxStatus[] = [];
+  for (const line of text.split("\n")) {
+    if (line.trim() === "") continue;
+    const match = line.trim().match(/^\[(.)]\s+(\S+)\s+(open|closed)$/);
+    if (!match) {
+      return `Invalid line: "${line.trim()}"`;
+    }
+    statuses.push({symbol: match[1], state: match[2] as CheckboxState, isOpen: match[3] === "open"});
+  }
+  return validateCheckboxStatuses(statuses) ?? statuses;
+}
+
+function assignSetting<K extends keyof WTCSettings>(settings: WTCSettings, key: K, value: WTCSettings[K]) {
+  settings[key] = value;
+}
+
+/**
+ * 保存されていたデータから設定を作る。不正な項目はデフォルト値に戻す。
+ */
+export function loadSettingsFrom(data: any): WTCSettings {
+  const settings: WTCSettings = Object.assign({}, DEFAULT_SETTINGS);
+  for (const key of Object.keys(DEFAULT_SETTINGS) as (keyof WTCSettings)[]) {
+    if (data && data[key] !== undefined) {
+      assignSetting(settings, key, data[key]);
+    }
+  }
+  const errors = validateSettings(settings);
+  for (const key of Object.keys(errors) as (keyof WTCSettings)[]) {
+    console.warn(`WTC: invalid setting "${key}": ${errors[key]}`);
+    assignSetting(settings, key, DEFAULT_SETTINGS[key]);
+  }
+  return settings;
+}
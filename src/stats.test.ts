@@ -0,0 +1,48 @@
+import test from "node:test";
+import * as a from "assert";
+import * as lib from "./lib.js";
+import {YMD} from "./datetime.js";
+import {SourceFile} from "./md.js";
+import {computeStats, getRate, getStatsRange, getStatsWeeks} from "./stats.js";
+import {parseQuery, Query} from "./query.js";
+
+const A = new SourceFile("A", "a", "a.md");
+const B = new SourceFile("B", "b", "b.md");
+const TODAY = new YMD(2025, 5, 7);
+
+test("getStatsWeeks ends with this week", () => {
+  a.deepStrictEqual(getStatsWeeks(TODAY, 2).map(week => week.toString()),
+    ["2025/04/28 ~ 2025/05/04", "2025/05/05 ~ 2025/05/11"]);
+});
+
+test("computeStats counts tasks per week and source", () => {
+  const tasks = lib.parseContentToTasks(A, `- 2025/04/28 ~ 2025/05/04
+  - [x] weekly
+- 2025/05/01
+  - [ ] undone
+  - [ ] undone too
+  - memo
+- 2025/05/06
+  - [x] done
+  - [-] cancelled
+`)!;
+  tasks.addAllTasks(lib.parseContentToTasks(B, `- 2025/05/02
+  - [ ] undone
+- 2025/04/01
+  - [ ] too old
+`)!);
+  const stats = computeStats(tasks, getStatsWeeks(TODAY, 2), TODAY);
+  a.deepStrictEqual(stats.weeks.map(week => [week.done, week.total]), [[1, 4], [1, 1]]);
+  a.deepStrictEqual(stats.weeks[0].bySource.get(A.path), {source: A, done: 1, total: 3});
+  a.deepStrictEqual(stats.carriedOver.map(counts => [counts.source.path, counts.total]), [["a.md", 2], ["b.md", 1]]);
+  a.strictEqual(getRate(stats.weeks[0]), 0.25);
+  a.strictEqual(getRate({done: 0, total: 0}), undefined);
+});
+
+test("getStatsRange is undefined for limit-weeks: 0", () => {
+  const query = parseQuery("xxx\nlimit-weeks: 0") as Query;
+  const weeks = getStatsWeeks(TODAY, query.limitWeeks!);
+  a.deepStrictEqual(weeks, []);
+  a.strictEqual(getStatsRange(weeks), undefined);
+  a.strictEqual(getStatsRange(getStatsWeeks(TODAY, 2))?.toString(), "2025/04/28 ~ 2025/05/11");
+});
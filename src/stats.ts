@@ -0,0 +1,109 @@
+import {DateRange, Week, YMD} from "./datetime.js";
+import {Node, NodeVisitor, RootNode, TaskNode} from "./lib.js";
+import {getCheckboxStatus, SourceFile} from "./md.js";
+
+/**
+ * limit-weeks が無いときに集計する週の数
+ */
+export const DEFAULT_STATS_WEEKS = 8;
+
+export interface Counts {
+  done: number;
+  total: number;
+}
+
+export interface SourceCounts extends Counts {
+  source: SourceFile;
+}
+
+export interface WeekStats extends Counts {
+  week: DateRange;
+  /**
+   * Key: file path
+   */
+  bySource: Map<string, SourceCounts>;
+}
+
+export interface TaskStats {
+  weeks: WeekStats[];
+  /**
+   * 期間が終わったのに未完了のタスクが多い順
+   */
+  carriedOver: SourceCounts[];
+}
+
+/**
+ * 今週までのweeks週間
+ */
+export function getStatsWeeks(today: YMD, weeks: number): DateRange[] {
+  const thisWeek = Week.fromYMD(today).range;
+  const ranges: DateRange[] = [];
+  for (let i = weeks - 1; i >= 0; i--) {
+    ranges.push(new DateRange(thisWeek.from.plusDays(-7 * i), thisWeek.to.plusDays(-7 * i)));
+  }
+  return ranges;
+}
+
+/**
+ * @return 集計する週全体の期間。週が無ければ (limit-weeks: 0) undefined
+ */
+export function getStatsRange(weeks: DateRange[]): DateRange | undefined {
+  if (weeks.length === 0) return undefined;
+  return new DateRange(weeks[0].from, weeks[weeks.length - 1].to);
+}
+
+function addCount(counts: Counts, done: boolean) {
+  counts.total++;
+  if (done) counts.done++;
+}
+
+/**
+ * チェックボックスのあるタスク (キャンセルしたものを除く) を、期間の最後の日を含む週ごと、ソースごとに数える。
+ * 期間が今日より前に終わった未完了のタスクは持ち越しとして数える。
+ */
+export function computeStats(tasks: RootNode, weeks: DateRange[], today: YMD): TaskStats {
+  const weekStats: WeekStats[] = weeks.map(week => ({week, done: 0, total: 0, bySource: new Map()}));
+  const carriedOver: Map<string, SourceCounts> = new Map();
+  tasks.visit(undefined, new class implements NodeVisitor<undefined> {
+    enter(node: Node, ctx: undefined): () => undefined {
+      // Cancelled tasks are neither done nor left to do.
+      if (node instanceof TaskNode && node.task.task.checkText !== undefined
+        && getCheckboxStatus(node.task.task.checkText).state !== "cancelled") {
+        const task = node.task;
+        const lastDay = task.temporal.toDateRange().to;
+        const stats = weekStats.find(stats => stats.week.doesInclude(lastDay));
+        if (stats) {
+          const source = task.task.srcFile;
+          const done = task.task.isAllChecked();
+          addCount(stats, done);
+          const sourceCounts = stats.bySource.get(source.path) ?? {source, done: 0, total: 0};
+          addCount(sourceCounts, done);
+          stats.bySource.set(source.path, sourceCounts);
+
+          if (!done && lastDay.earlierThan(today)) {
+            const counts = carriedOver.get(source.path) ?? {source, done: 0, total: 0};
+            counts.total++;
+            carriedOver.set(source.path, counts);
+          }
+        }
+      }
+      return function () {
+        return undefined;
+      };
+    }
+
+    exit(node: Node, ctx: undefined, childrenCtx: undefined[]): void {
+    }
+  });
+  return {
+    weeks: weekStats,
+    carriedOver: Array.from(carriedOver.values()).sort((a, b) => b.total - a.total),
+  };
+}
+
+/**
+ * @return 完了率 (0 ~ 1)。タスクが無ければundefined
+ */
+export function getRate(counts: Counts): number | undefined {
+  return counts.total === 0 ? undefined : counts.done / counts.total;
+}
@@ -0,0 +1,35 @@
+import test from "node:test";
+import * as a from "assert";
+import {TaskIndex} from "./taskindex.js";
+import {SourceFile} from "./md.js";
+
+const CONTENT = `- 2025/04/28
+  - [ ] foo
+`;
+
+test("TaskIndex#needsUpdate", () => {
+  const index = new TaskIndex();
+  const src = new SourceFile("URI", "a", "root/a.md");
+  a.strictEqual(index.needsUpdate(src.path, 1), true);
+  index.update(src, 1, CONTENT);
+  a.strictEqual(index.needsUpdate(src.path, 1), false);
+  a.strictEqual(index.needsUpdate(src.path, 2), true);
+  index.remove(src.path);
+  a.strictEqual(index.needsUpdate(src.path, 1), true);
+});
+
+test("TaskIndex#getTasks reuses parsed tasks for another display name", () => {
+  const index = new TaskIndex();
+  index.update(new SourceFile("URI", "a", "root/a.md"), 1, CONTENT);
+
+  const other = new SourceFile("URI", "root/a", "root/a.md");
+  const tasks = index.getTasks(other)!;
+  const taskNode = tasks.children[0].children[0];
+  a.strictEqual(taskNode.source, other);
+  a.strictEqual(taskNode.children[0].task.task.srcFile, other);
+  a.strictEqual(taskNode.children[0].task.task.line?.lineNumber, 1);
+  a.strictEqual(index.getTasks(other), tasks);
+
+  index.update(new SourceFile("URI", "b", "root/b.md"), 1, "no tasks");
+  a.strictEqual(index.getTasks(new SourceFile("URI", "root/b", "root/b.md")), undefined);
+});
@@ -0,0 +1,73 @@
+import * as lib from "./lib.js";
+import {RootNode} from "./lib.js";
+import {SourceFile} from "./md.js";
+
+class IndexedFile {
+  readonly mtime: number;
+  /**
+   * Key: display name, Value: tasks of the file shown with that name.
+   * undefined when the file has no tasks.
+   */
+  private readonly tasksByDisplayName: Map<string, RootNode | undefined> = new Map();
+
+  constructor(mtime: number, srcFile: SourceFile, tasks: RootNode | undefined) {
+    this.mtime = mtime;
+    this.tasksByDisplayName.set(srcFile.displayName, tasks);
+  }
+
+  getTasks(srcFile: SourceFile): RootNode | undefined {
+    if (this.tasksByDisplayName.has(srcFile.displayName)) {
+      return this.tasksByDisplayName.get(srcFile.displayName);
+    }
+    // The file is shown by another block with a different root path.
+    // Reuse the parsed result instead of parsing the content again.
+    const parsed: RootNode | undefined = this.tasksByDisplayName.values().next().value;
+    const tasks = parsed?.withSourceFile(srcFile);
+    this.tasksByDisplayName.set(srcFile.displayName, tasks);
+    return tasks;
+  }
+}
+
+/**
+ * ファイルごとのタスクのキャッシュ。
+ * 複数のブロックから共有され、変更されたファイルだけが再びパースされる。
+ */
+export class TaskIndex {
+  // Key: file path
+  private readonly files: Map<string, IndexedFile> = new Map();
+
+  /**
+   * @return true if the file has not been parsed or has been modified since it was parsed
+   */
+  needsUpdate(path: string, mtime: number): boolean {
+    const indexed = this.files.get(path);
+    return indexed === undefined || indexed.mtime !== mtime;
+  }
+
+  update(srcFile: SourceFile, mtime: number, content: string) {
+    const tasks = lib.parseContentToTasks(srcFile, content, lib.getDailyNoteDate(srcFile.path));
+    this.files.set(srcFile.path, new IndexedFile(mtime, srcFile, tasks));
+  }
+
+  /**
+   * @return mtime of the file when it was parsed
+   */
+  getMTime(path: string): number | undefined {
+    return this.files.get(path)?.mtime;
+  }
+
+  /**
+   * Returns undefined when the file has no tasks or has not been parsed.
+   */
+  getTasks(srcFile: SourceFile): RootNode | undefined {
+    return this.files.get(srcFile.path)?.getTasks(srcFile);
+  }
+
+  remove(path: string) {
+    this.files.delete(path);
+  }
+
+  clear() {
+    this.files.clear();
+  }
+}